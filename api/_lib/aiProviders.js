@@ -0,0 +1,200 @@
+// api/_lib/aiProviders.js
+// AI backends for the serverless functions, chosen with environment
+// variables (files under api/_lib are not deployed as routes):
+//
+//   AI_PROVIDER   openai (default) | azure | local | mock
+//   AI_MODEL      model name, or the deployment name for Azure
+//                 (default gpt-4.1-mini)
+//   AI_BASE_URL   local: OpenAI-compatible server, e.g. http://localhost:11434/v1
+//   AI_API_KEY    local: key for that server, if it needs one
+//
+//   openai: OPENAI_API_KEY
+//   azure:  AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT, OPENAI_API_VERSION
+
+const OpenAI = require("openai");
+const { AzureOpenAI } = OpenAI;
+
+const DEFAULT_MODEL = "gpt-4.1-mini";
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+class AiConfigError extends Error {}
+
+/**
+ * Every provider has the same shape:
+ * {
+ *   name: string;
+ *   model: string;
+ *   completeJson({ system, user, temperature }): Promise<string>;
+ * }
+ * completeJson returns the raw model output, which should be a JSON object.
+ */
+function chatProvider(name, client, model, { jsonMode = true } = {}) {
+  return {
+    name,
+    model,
+    async completeJson({ system, user, temperature = 0.2 }) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: user },
+        ],
+        // Force pure JSON output where the backend supports it
+        ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+        temperature,
+      });
+      return completion.choices[0]?.message?.content || "{}";
+    },
+  };
+}
+
+function openAiProvider(model) {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new AiConfigError("OPENAI_API_KEY is not set in environment");
+  }
+  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return chatProvider("openai", client, model);
+}
+
+function azureProvider(model) {
+  if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
+    throw new AiConfigError(
+      "AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT must be set for AI_PROVIDER=azure"
+    );
+  }
+  const client = new AzureOpenAI({
+    apiKey: process.env.AZURE_OPENAI_API_KEY,
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+    apiVersion: process.env.OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+    deployment: model,
+  });
+  return chatProvider("azure", client, model);
+}
+
+// Ollama, vLLM, LM Studio, llama.cpp server… Not all of them support
+// response_format, so AI_JSON_MODE=false leaves it out.
+function localProvider(model) {
+  if (!process.env.AI_BASE_URL) {
+    throw new AiConfigError("AI_BASE_URL must be set for AI_PROVIDER=local");
+  }
+  const client = new OpenAI({
+    apiKey: process.env.AI_API_KEY || "local",
+    baseURL: process.env.AI_BASE_URL,
+  });
+  return chatProvider("local", client, model, {
+    jsonMode: process.env.AI_JSON_MODE !== "false",
+  });
+}
+
+// ---------- Mock: deterministic, no network ----------
+// Turns the text into a template with simple rules so the import flow can
+// be developed and tested without an API key: short ALL CAPS or "Section"
+// lines start sections, other lines become Yes / No / N/A questions.
+function mockTemplate(input) {
+  const text = typeof input.text === "string" ? input.text : "";
+  const maxSections = input.maxSections || 12;
+  const maxQuestions = input.maxQuestionsPerSection || 30;
+
+  const sections = [];
+  let current = null;
+  let name = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/\s+/g, " ").trim();
+    if (line.length < 3) continue;
+
+    const letters = line.replace(/[^A-Za-z]/g, "");
+    const heading =
+      line.length <= 60 &&
+      ((letters.length >= 3 && letters === letters.toUpperCase()) ||
+        /^section\b/i.test(line));
+
+    if (heading) {
+      if (!name) {
+        name = line;
+        continue;
+      }
+      if (sections.length >= maxSections) break;
+      current = { title: line, questions: [] };
+      sections.push(current);
+      continue;
+    }
+
+    if (!current) {
+      current = { title: "General", questions: [] };
+      sections.push(current);
+    }
+    if (current.questions.length >= maxQuestions) continue;
+    current.questions.push({
+      label: line.replace(/^[\d.)\s]+/, "").slice(0, 200),
+      type: /_{3,}/.test(line) ? "text" : "yes_no_na",
+      options: [],
+      allowNotes: true,
+      allowPhoto: true,
+      required: true,
+    });
+  }
+
+  return {
+    name: name || "Mock template",
+    description: "Generated by the mock AI provider.",
+    sections: sections.filter((s) => s.questions.length),
+  };
+}
+
+function mockProvider(model) {
+  return {
+    name: "mock",
+    model,
+    async completeJson({ user }) {
+      let input = {};
+      try {
+        input = JSON.parse(user);
+      } catch (e) {
+        input = { text: user };
+      }
+      return JSON.stringify(mockTemplate(input));
+    },
+  };
+}
+
+const PROVIDERS = {
+  openai: openAiProvider,
+  azure: azureProvider,
+  local: localProvider,
+  mock: mockProvider,
+};
+
+/** Provider configured by AI_PROVIDER / AI_MODEL. Throws AiConfigError. */
+function getAiProvider() {
+  const name = (process.env.AI_PROVIDER || "openai").trim().toLowerCase();
+  const create = PROVIDERS[name];
+  if (!create) {
+    throw new AiConfigError(
+      `Unknown AI_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(", ")})`
+    );
+  }
+  const model = process.env.AI_MODEL || (name === "mock" ? "mock" : DEFAULT_MODEL);
+  return create(model);
+}
+
+/**
+ * Parses model output as a JSON object. Models without a JSON mode often
+ * wrap it in ```json fences or add a sentence around it.
+ */
+function parseJsonContent(content) {
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end <= start) throw e;
+    return JSON.parse(content.slice(start, end + 1));
+  }
+}
+
+module.exports = {
+  AiConfigError,
+  getAiProvider,
+  parseJsonContent,
+};
@@ -0,0 +1,228 @@
+// api/_lib/templateSchema.js
+// Checks AI output against the template structure the client expects and
+// repairs what it can. Every change is reported as a correction so the
+// user can see what the model got wrong.
+
+const QUESTION_TYPES = ["yes_no_na", "good_fair_poor", "multiple_choice", "text"];
+
+// Other names models use for the same types, compared without punctuation
+const TYPE_ALIASES = {
+  yesnona: "yes_no_na",
+  yesno: "yes_no_na",
+  boolean: "yes_no_na",
+  checkbox: "yes_no_na",
+  passfail: "yes_no_na",
+  goodfairpoor: "good_fair_poor",
+  rating: "good_fair_poor",
+  condition: "good_fair_poor",
+  multiplechoice: "multiple_choice",
+  choice: "multiple_choice",
+  select: "multiple_choice",
+  dropdown: "multiple_choice",
+  radio: "multiple_choice",
+  text: "text",
+  freetext: "text",
+  string: "text",
+  comment: "text",
+  number: "text",
+  date: "text",
+};
+
+const MAX_LABEL_LENGTH = 300;
+
+// Thrown for output that can't be turned into a template; worth a retry
+class TemplateSchemaError extends Error {}
+
+function isObject(value) {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function text(value) {
+  if (typeof value === "string") return value.replace(/\s+/g, " ").trim();
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+function toBoolean(value, fallback) {
+  if (typeof value === "boolean") return { value, changed: false };
+  if (value === undefined || value === null) {
+    return { value: fallback, changed: false };
+  }
+  const s = String(value).trim().toLowerCase();
+  if (["true", "yes", "1"].includes(s)) return { value: true, changed: true };
+  if (["false", "no", "0"].includes(s)) return { value: false, changed: true };
+  return { value: fallback, changed: true };
+}
+
+function normaliseType(value, options) {
+  const key = text(value).toLowerCase().replace(/[^a-z]/g, "");
+  if (QUESTION_TYPES.includes(value)) return value;
+  if (TYPE_ALIASES[key]) return TYPE_ALIASES[key];
+  return options.length >= 2 ? "multiple_choice" : "yes_no_na";
+}
+
+function cleanOptions(value) {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(/[|;,]/)
+    : [];
+  const options = [];
+  for (const o of list) {
+    const option = text(isObject(o) ? o.label || o.value : o);
+    if (option && !options.includes(option)) options.push(option);
+  }
+  return options;
+}
+
+/**
+ * Validates and repairs a parsed model response.
+ *
+ * Returns { template, corrections } where corrections is a list of
+ * { path, message }. Throws TemplateSchemaError when nothing usable is left.
+ */
+function repairTemplate(raw, { maxSections = 12, maxQuestionsPerSection = 30 } = {}) {
+  const corrections = [];
+  const correct = (path, message) => corrections.push({ path, message });
+
+  if (!isObject(raw)) {
+    throw new TemplateSchemaError("Response is not a JSON object");
+  }
+
+  // Some models nest the answer, e.g. { "template": { … } }
+  let root = raw;
+  if (!Array.isArray(root.sections)) {
+    const nested = Object.values(root).find(
+      (v) => isObject(v) && Array.isArray(v.sections)
+    );
+    if (!nested) {
+      throw new TemplateSchemaError('Response has no "sections" array');
+    }
+    correct("", "Template was nested inside another object");
+    root = nested;
+  }
+
+  const template = {
+    name: text(root.name),
+    description: text(root.description),
+    sections: [],
+  };
+  if (root.name !== undefined && typeof root.name !== "string") {
+    correct("name", "Name was not text");
+  }
+
+  root.sections.forEach((rawSection, si) => {
+    const sPath = `sections[${si}]`;
+    if (!isObject(rawSection)) {
+      correct(sPath, "Section was not an object and was removed");
+      return;
+    }
+
+    let title = text(rawSection.title || rawSection.name);
+    if (!title) {
+      title = `Section ${template.sections.length + 1}`;
+      correct(`${sPath}.title`, `Missing title, using "${title}"`);
+    }
+
+    const rawQuestions = Array.isArray(rawSection.questions)
+      ? rawSection.questions
+      : [];
+    if (!Array.isArray(rawSection.questions)) {
+      correct(`${sPath}.questions`, "Questions were not a list");
+    }
+
+    const questions = [];
+    rawQuestions.forEach((rawQuestion, qi) => {
+      const qPath = `${sPath}.questions[${qi}]`;
+      const q = typeof rawQuestion === "string" ? { label: rawQuestion } : rawQuestion;
+      if (!isObject(q)) {
+        correct(qPath, "Question was not an object and was removed");
+        return;
+      }
+
+      let label = text(q.label || q.question || q.text);
+      if (!label) {
+        correct(qPath, "Question without a label was removed");
+        return;
+      }
+      if (label.length > MAX_LABEL_LENGTH) {
+        label = label.slice(0, MAX_LABEL_LENGTH - 1).trimEnd() + "…";
+        correct(`${qPath}.label`, "Label was shortened");
+      }
+
+      let options = cleanOptions(q.options);
+      let type = normaliseType(q.type, options);
+      if (type !== q.type) {
+        const known = TYPE_ALIASES[text(q.type).toLowerCase().replace(/[^a-z]/g, "")];
+        correct(
+          `${qPath}.type`,
+          q.type === undefined
+            ? `Missing type, using ${type}`
+            : known
+            ? `Type "${text(q.type)}" changed to ${type}`
+            : `Unknown type "${text(q.type)}", using ${type}`
+        );
+      }
+
+      if (type === "multiple_choice" && options.length < 2) {
+        type = "text";
+        correct(
+          `${qPath}.type`,
+          "Multiple choice needs at least two options, using text"
+        );
+      }
+      if (type !== "multiple_choice" && options.length) {
+        options = [];
+        correct(`${qPath}.options`, `Options removed from a ${type} question`);
+      }
+
+      const flags = {};
+      for (const [field, fallback] of [
+        ["allowNotes", true],
+        ["allowPhoto", true],
+        ["required", true],
+      ]) {
+        const { value, changed } = toBoolean(q[field], fallback);
+        flags[field] = value;
+        if (changed) {
+          correct(`${qPath}.${field}`, `${field} was not true/false, using ${value}`);
+        }
+      }
+
+      questions.push({ label, type, options, ...flags });
+    });
+
+    if (!questions.length) {
+      correct(sPath, `Section "${title}" had no questions and was removed`);
+      return;
+    }
+    if (questions.length > maxQuestionsPerSection) {
+      correct(
+        `${sPath}.questions`,
+        `Only the first ${maxQuestionsPerSection} of ${questions.length} questions were kept`
+      );
+      questions.length = maxQuestionsPerSection;
+    }
+
+    template.sections.push({ title, questions });
+  });
+
+  if (template.sections.length > maxSections) {
+    correct(
+      "sections",
+      `Only the first ${maxSections} of ${template.sections.length} sections were kept`
+    );
+    template.sections.length = maxSections;
+  }
+
+  if (!template.sections.length) {
+    throw new TemplateSchemaError("Response contains no usable questions");
+  }
+
+  return { template, corrections };
+}
+
+module.exports = {
+  TemplateSchemaError,
+  repairTemplate,
+};
@@ -1,18 +1,30 @@
 // api/ai-pdf-template.js
-// Pure OpenAI JSON conversion, CommonJS for Vercel Node runtime
+// AI JSON conversion, CommonJS for Vercel Node runtime
 
-const OpenAI = require("openai");
+const {
+  AiConfigError,
+  getAiProvider,
+  parseJsonContent,
+} = require("./_lib/aiProviders");
+const { repairTemplate, TemplateSchemaError } = require("./_lib/templateSchema");
 
 /**
  * Vercel serverless function to turn extracted PDF text
- * into an AuditKing template using OpenAI only.
+ * into an AuditKing template. The AI backend is set with AI_PROVIDER
+ * (see api/_lib/aiProviders.js).
  *
  * It expects a POST with JSON:
  * {
  *   text: string;
+ *   part?: number;        // large PDFs are sent in parts (1-based)
+ *   totalParts?: number;
  *   maxSections?: number;
  *   maxQuestionsPerSection?: number;
  * }
+ *
+ * The model output is checked and repaired (api/_lib/templateSchema.js)
+ * before it is returned, with a list of what was changed:
+ * { name, description, sections, corrections: { path, message }[] }
  */
 async function handler(req, res) {
   // Only allow POST
@@ -34,6 +46,8 @@ async function handler(req, res) {
 
   const {
     text,
+    part = 1,
+    totalParts = 1,
     maxSections = 12,
     maxQuestionsPerSection = 30,
   } = body || {};
@@ -43,18 +57,16 @@ async function handler(req, res) {
     return;
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    res
-      .status(500)
-      .json({ error: "OPENAI_API_KEY is not set in environment" });
+  let provider;
+  try {
+    provider = getAiProvider();
+  } catch (err) {
+    if (!(err instanceof AiConfigError)) throw err;
+    res.status(500).json({ error: err.message });
     return;
   }
 
   try {
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-
     const systemPrompt = `
 You convert checklist PDFs into JSON templates for an inspections app called AuditKing.
 
@@ -89,11 +101,20 @@ Rules:
 - Otherwise use "text".
 - Make clear, short question labels.
 - Do NOT include any commentary; just the JSON object.
-`;
-
-    // If you later increase what the frontend sends, you can also
-    // truncate here defensively (for now it's already limited in the UI).
-    const truncatedText = text; // or text.slice(0, 50000);
+${
+  totalParts > 1
+    ? `
+This is part ${part} of ${totalParts} of a longer document; the parts are merged afterwards.
+- Convert every question in this part; do not summarise or skip any.
+- If the text starts in the middle of a section, reuse that section's title when it is clear from the text, otherwise use a short descriptive title.
+- Use the document's title as "name" even if this part doesn't start at the beginning.
+`
+    : ""
+}`;
+
+    // The frontend splits long documents into parts; this only guards
+    // against oversized requests from elsewhere.
+    const truncatedText = text.slice(0, 50000);
 
     const userPrompt = {
       text: truncatedText,
@@ -101,38 +122,41 @@ Rules:
       maxQuestionsPerSection,
     };
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4.1-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: JSON.stringify(userPrompt),
-        },
-      ],
-      // Force pure JSON output
-      response_format: { type: "json_object" },
-      temperature: 0.2,
-    });
-
-    const content = completion.choices[0]?.message?.content || "{}";
-
-    let parsed;
-    try {
-      parsed = JSON.parse(content);
-    } catch (e) {
-      console.error("JSON parse error from OpenAI:", e, content);
-      res.status(500).json({
-        error: "Model returned invalid JSON",
+    // Output that can't be repaired gets one more try, telling the model
+    // what was wrong with its first answer
+    let problem = null;
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const content = await provider.completeJson({
+        system: problem
+          ? `${systemPrompt}\nYour previous answer was rejected: ${problem}. Return ONLY the JSON object in the structure above.`
+          : systemPrompt,
+        user: JSON.stringify(userPrompt),
+        temperature: problem ? 0 : 0.2,
       });
-      return;
-    }
 
-    if (!Array.isArray(parsed.sections)) {
-      parsed.sections = [];
+      try {
+        const { template, corrections } = repairTemplate(
+          parseJsonContent(content),
+          { maxSections, maxQuestionsPerSection }
+        );
+        res.status(200).json({ ...template, corrections });
+        return;
+      } catch (e) {
+        if (!(e instanceof SyntaxError) && !(e instanceof TemplateSchemaError)) {
+          throw e;
+        }
+        problem = e instanceof SyntaxError ? "invalid JSON" : e.message;
+        console.error(
+          `ai-pdf-template attempt ${attempt} (${provider.name}):`,
+          problem,
+          content
+        );
+      }
     }
 
-    res.status(200).json(parsed);
+    res.status(502).json({
+      error: `Model returned an unusable template (${problem})`,
+    });
   } catch (err) {
     console.error("ai-pdf-template error:", err);
     res.status(500).json({
@@ -9,6 +9,8 @@ import InspectionsPage from './pages/InspectionsPage'
 import ActionsPage from './pages/ActionsPage'
 import SitesPage from './pages/SitesPage'
 import UsersPage from './pages/UsersPage'
+import ResponseSetsPage from './pages/ResponseSetsPage'
+import SchedulesPage from './pages/SchedulesPage'
 import TemplateEditorPage from './pages/TemplateEditorPage'
 import Navbar from './components/Navbar'
 
@@ -119,9 +121,11 @@ function AppShell() {
           <Route path="/templates/new" element={<TemplateEditorPage mode="create" />} />
           <Route path="/templates/:id/edit" element={<TemplateEditorPage mode="edit" />} />
           <Route path="/inspections" element={<InspectionsPage />} />
+          <Route path="/schedules" element={<SchedulesPage />} />
           <Route path="/actions" element={<ActionsPage />} />
           <Route path="/sites" element={<SitesPage />} />
           <Route path="/users" element={<UsersPage />} />
+          <Route path="/response-sets" element={<ResponseSetsPage />} />
           {/* Login route without props */}
           <Route path="/login" element={<LoginPage />} />
           <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from "react";
+import { decodeFromCanvas, decodeFromFile } from "@/utils/barcode";
+
+type Props = {
+  onDetected: (value: string) => void;
+  onClose: () => void;
+};
+
+const SCAN_INTERVAL_MS = 300;
+
+/**
+ * Camera viewfinder that decodes QR / barcodes locally. Falls back to
+ * an uploaded photo when there is no camera or permission is denied.
+ */
+export default function BarcodeScanner({ onDetected, onClose }: Props) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [decoding, setDecoding] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the camera
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState >= 2 && video.videoWidth) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext("2d")?.drawImage(video, 0, 0);
+        try {
+          const value = await decodeFromCanvas(canvas);
+          if (value && !stopped) {
+            stopped = true;
+            onDetectedRef.current(value);
+            return;
+          }
+        } catch (e) {
+          console.error("decodeFromCanvas error", e);
+        }
+      }
+      if (!stopped) timer = window.setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("Camera not available – upload a photo instead.");
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false,
+        });
+        if (stopped) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = stream;
+          await video.play();
+        }
+        scanFrame();
+      } catch (e) {
+        console.error("getUserMedia error", e);
+        setCameraError("Could not open the camera – upload a photo instead.");
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) window.clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  const handlePhoto = async (file: File | null) => {
+    if (!file) return;
+    setDecoding(true);
+    setMessage(null);
+    try {
+      const value = await decodeFromFile(file);
+      if (value) {
+        onDetected(value);
+      } else {
+        setMessage("No code found in that photo. Try a closer, sharper shot.");
+      }
+    } catch (e: any) {
+      console.error("decodeFromFile error", e);
+      setMessage(e?.message || "Could not read that photo.");
+    } finally {
+      setDecoding(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-xl bg-gray-900 p-2 space-y-2 text-[11px] text-white">
+      {cameraError ? (
+        <div className="px-2 py-6 text-center text-gray-300">{cameraError}</div>
+      ) : (
+        <div className="relative">
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            className="w-full max-h-64 rounded-lg bg-black object-cover"
+          />
+          <div className="pointer-events-none absolute inset-6 border-2 border-white/70 rounded-lg" />
+        </div>
+      )}
+      <canvas ref={canvasRef} className="hidden" />
+
+      {message && <div className="text-amber-300">{message}</div>}
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="inline-flex items-center gap-2 cursor-pointer">
+          <span className="px-2 py-1 rounded-xl border border-white/30 hover:bg-white/10">
+            {decoding ? "Reading photo…" : "Upload photo"}
+          </span>
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => {
+              handlePhoto(e.target.files ? e.target.files[0] : null);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-2 py-1 rounded-xl border border-white/30 hover:bg-white/10"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
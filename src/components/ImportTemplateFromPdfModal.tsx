@@ -1,6 +1,22 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/utils/supabaseClient";
+import {
+  hasErrors,
+  issuesFor,
+  summariseIssues,
+  validateTemplate,
+} from "@/utils/templateValidation";
+import { parsePdfChecklist, PdfLine } from "@/utils/pdfChecklistParser";
+import {
+  AiTemplate,
+  chunkPdfLines,
+  matchSourceSnippets,
+  mergeAiTemplates,
+  SourceSnippet,
+} from "@/utils/pdfImportChunks";
 import * as pdfjsLib from "pdfjs-dist";
+import { randomId } from "@/utils/ids";
+import { saveTemplateSites } from "@/utils/templateSites";
 
 type ImportTemplateFromPdfModalProps = {
   open: boolean;
@@ -17,7 +33,8 @@ type QuestionType =
   | "yes_no_na"
   | "good_fair_poor"
   | "multiple_choice"
-  | "text";
+  | "text"
+  | "signature";
 
 type TemplateQuestion = {
   id: string;
@@ -40,32 +57,107 @@ type TemplateDefinition = {
   sections: TemplateSection[];
 };
 
-// ---------- CONFIG: increase how much PDF text we send to OpenAI ----------
-const MAX_TEXT_CHARS = 120000; // was 20000 – this should cover 10–15 pages of questions comfortably
-
-// Simple ID helper
-function randomId(prefix: string) {
-  return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
-}
+const TYPE_LABELS: Record<QuestionType, string> = {
+  yes_no_na: "Yes / No / N/A",
+  good_fair_poor: "Good / Fair / Poor",
+  multiple_choice: "Multiple choice",
+  text: "Text only",
+  signature: "Signature",
+};
 
 // Configure pdf.js worker from CDN (works nicely with Vite)
 (pdfjsLib as any).GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${
   (pdfjsLib as any).version
 }/pdf.worker.min.js`;
 
-// Extract raw text from a PDF file in the browser
-async function extractTextFromPdf(file: File): Promise<string> {
+// Extract text lines from a PDF file in the browser. Text items are
+// grouped by their baseline so the offline parser sees real lines.
+async function extractTextFromPdf(file: File): Promise<PdfLine[]> {
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await (pdfjsLib as any).getDocument({ data: arrayBuffer }).promise;
 
-  let fullText = "";
+  const lines: PdfLine[] = [];
   for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
     const page = await pdf.getPage(pageNum);
     const content = await page.getTextContent();
-    const strings = (content.items || []).map((item: any) => item.str || "");
-    fullText += strings.join(" ") + "\n\n";
+
+    const rows: { y: number; items: any[] }[] = [];
+    for (const item of content.items || []) {
+      if (!item.str || !item.transform) continue;
+      const y = item.transform[5];
+      const height = item.height || Math.abs(item.transform[3]) || 0;
+      // Same line when the baselines are within half a character
+      let row = rows.find((r) => Math.abs(r.y - y) <= Math.max(2, height / 2));
+      if (!row) {
+        row = { y, items: [] };
+        rows.push(row);
+      }
+      row.items.push(item);
+    }
+
+    rows.sort((a, b) => b.y - a.y); // PDF y grows upwards
+    for (const row of rows) {
+      row.items.sort((a, b) => a.transform[4] - b.transform[4]);
+      let text = "";
+      let lastEnd: number | null = null;
+      for (const item of row.items) {
+        const x = item.transform[4];
+        if (lastEnd !== null && x - lastEnd > 1 && !text.endsWith(" ")) {
+          text += " ";
+        }
+        text += item.str;
+        lastEnd = x + (item.width || 0);
+      }
+      lines.push({
+        text,
+        height: Math.max(
+          ...row.items.map(
+            (i) => i.height || Math.abs(i.transform[3]) || 0
+          )
+        ),
+        page: pageNum,
+      });
+    }
+  }
+  return lines;
+}
+
+// One AI request for one part of the document
+async function requestAiTemplate(
+  text: string,
+  part: number,
+  totalParts: number
+): Promise<AiTemplate> {
+  const res = await fetch("/api/ai-pdf-template", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      text,
+      part,
+      totalParts,
+      maxSections: 50,
+      maxQuestionsPerSection: 40,
+    }),
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Server error: ${res.status}`);
   }
-  return fullText;
+  return res.json();
+}
+
+function linesToText(lines: PdfLine[]) {
+  let text = "";
+  let page = 1;
+  for (const line of lines) {
+    if (line.page !== page) {
+      text += "\n";
+      page = line.page;
+    }
+    text += line.text + "\n";
+  }
+  return text;
 }
 
 const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
@@ -78,15 +170,40 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
 
   const [file, setFile] = useState<File | null>(null);
   const [rawText, setRawText] = useState<string>("");
+  const [pdfLines, setPdfLines] = useState<PdfLine[]>([]);
   const [extracting, setExtracting] = useState(false);
 
   const [aiGenerating, setAiGenerating] = useState(false);
+  const [aiProgress, setAiProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [failedParts, setFailedParts] = useState<number[]>([]);
+  const [corrections, setCorrections] = useState<string[]>([]);
+  const [source, setSource] = useState<"ai" | "local" | null>(null);
+  const [skippedLines, setSkippedLines] = useState(0);
 
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
 
   const [definition, setDefinition] = useState<TemplateDefinition | null>(null);
 
+  // Review: question id -> PDF text it came from, and questions accepted
+  const [snippets, setSnippets] = useState<Record<string, SourceSnippet>>({});
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  // Same checks as publishing; imports are saved as drafts to fix later
+  const issues = useMemo(
+    () => (definition ? validateTemplate(definition) : []),
+    [definition]
+  );
+
+  // Parts sent to the AI, one request each
+  const chunks = useMemo(
+    () => (pdfLines.length ? chunkPdfLines(pdfLines) : []),
+    [pdfLines]
+  );
+
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -123,11 +240,19 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
     if (!open) {
       setFile(null);
       setRawText("");
+      setPdfLines([]);
+      setSource(null);
+      setSkippedLines(0);
       setName("");
       setDescription("");
       setDefinition(null);
       setExtracting(false);
       setAiGenerating(false);
+      setAiProgress(null);
+      setFailedParts([]);
+      setCorrections([]);
+      setSnippets({});
+      setAccepted(new Set());
       setSaving(false);
       setError(null);
     }
@@ -137,14 +262,19 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
     const f = e.target.files?.[0] || null;
     setFile(f);
     setRawText("");
+    setPdfLines([]);
     setDefinition(null);
+    setSnippets({});
+    setAccepted(new Set());
+    setSource(null);
     setError(null);
 
     if (!f) return;
     setExtracting(true);
     try {
-      const text = await extractTextFromPdf(f);
-      setRawText(text);
+      const lines = await extractTextFromPdf(f);
+      setPdfLines(lines);
+      setRawText(linesToText(lines));
     } catch (err: any) {
       console.error("PDF extract error", err);
       setError("Could not read PDF. Please try another file.");
@@ -153,6 +283,17 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
     }
   };
 
+  const startReview = (sections: TemplateSection[]) => {
+    setDefinition({ sections });
+    setSnippets(
+      matchSourceSnippets(
+        sections.flatMap((sec) => sec.questions),
+        pdfLines
+      )
+    );
+    setAccepted(new Set());
+  };
+
   const handleGenerateWithAI = async () => {
     if (!rawText.trim()) {
       setError("Please upload a PDF first.");
@@ -160,45 +301,53 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
     }
 
     setError(null);
+    setFailedParts([]);
+    setCorrections([]);
     setAiGenerating(true);
     try {
-      // Truncate if necessary, but use a MUCH larger limit than before
-      const truncated = rawText.length > MAX_TEXT_CHARS;
-      const textToSend = truncated
-        ? rawText.slice(0, MAX_TEXT_CHARS)
-        : rawText;
-
-      const res = await fetch("/api/ai-pdf-template", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: textToSend,
-          maxSections: 50,
-          maxQuestionsPerSection: 40,
-        }),
-      });
+      // Parts are converted one after another so progress is meaningful
+      // and a long manual doesn't hit the API with many requests at once
+      const results: AiTemplate[] = [];
+      const resultParts: number[] = [];
+      const failed: number[] = [];
+      let lastError: any = null;
 
-      if (!res.ok) {
-        const body = await res.json().catch(() => ({}));
-        throw new Error(body.error || `Server error: ${res.status}`);
+      for (let i = 0; i < chunks.length; i++) {
+        setAiProgress({ done: i, total: chunks.length });
+        let result: AiTemplate | null = null;
+        for (let attempt = 0; attempt < 2 && !result; attempt++) {
+          try {
+            result = await requestAiTemplate(chunks[i], i + 1, chunks.length);
+          } catch (e) {
+            console.error(`AI part ${i + 1} error`, e);
+            lastError = e;
+          }
+        }
+        if (result) {
+          results.push(result);
+          resultParts.push(i + 1);
+        } else {
+          failed.push(i + 1);
+        }
       }
+      setAiProgress({ done: chunks.length, total: chunks.length });
+
+      if (!results.length) throw lastError || new Error("No parts converted");
 
-      const ai = await res.json();
-      // Expected shape from API:
-      // {
-      //   name: string;
-      //   description?: string;
-      //   sections: { title: string; questions: { label, type, options?, allowNotes?, allowPhoto?, required? }[] }[]
-      // }
+      const ai = mergeAiTemplates(results);
+      const fixes = results.flatMap((r, i) =>
+        (r.corrections || []).map(
+          (c) =>
+            (chunks.length > 1 ? `Part ${resultParts[i]}: ` : "") +
+            (c.path ? `${c.path} – ` : "") +
+            c.message
+        )
+      );
 
       const tplName =
         ai.name ||
         (file?.name?.replace(/\.pdf$/i, "") ?? "Imported template");
-      const tplDesc =
-        ai.description ||
-        (truncated
-          ? "Template imported from a large PDF using AI (content truncated to fit)."
-          : "Template imported from PDF using AI.");
+      const tplDesc = ai.description || "Template imported from PDF using AI.";
 
       const sections: TemplateSection[] = (ai.sections || []).map(
         (sec: any) => ({
@@ -222,36 +371,244 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
 
       setName(tplName);
       setDescription(tplDesc);
-      setDefinition({ sections });
+      startReview(sections);
+      setSource("ai");
+      setFailedParts(failed);
+      setCorrections(fixes);
     } catch (err: any) {
       console.error("AI generate error", err);
       setError(
-        err?.message ||
-          "AI could not generate a template. Please try again or simplify the PDF."
+        (err?.message ||
+          "AI could not generate a template. Please try again or simplify the PDF.") +
+          ' You can also use "Import without AI".'
       );
     } finally {
       setAiGenerating(false);
+      setAiProgress(null);
+    }
+  };
+
+  // Offline fallback: local heuristics, nothing is sent anywhere
+  const handleImportWithoutAI = () => {
+    if (!pdfLines.length) {
+      setError("Please upload a PDF first.");
+      return;
+    }
+    setError(null);
+
+    const parsed = parsePdfChecklist(pdfLines);
+    if (!parsed.sections.length) {
+      setError(
+        "No questions were recognised in this PDF. It may be a scanned image – try the AI import or build the template by hand."
+      );
+      return;
+    }
+
+    const sections: TemplateSection[] = parsed.sections.map((sec) => ({
+      id: randomId("sec"),
+      title: sec.title,
+      image_data_url: null,
+      questions: sec.questions.map((q) => ({
+        id: randomId("q"),
+        label: q.label,
+        type: q.type,
+        options: q.options,
+        allowNotes: true,
+        allowPhoto: q.type !== "signature",
+        required: true,
+      })),
+    }));
+
+    setName(
+      parsed.name || (file?.name?.replace(/\.pdf$/i, "") ?? "Imported template")
+    );
+    setDescription("Template imported from PDF without AI.");
+    startReview(sections);
+    setSource("local");
+    setFailedParts([]);
+    setCorrections([]);
+    setSkippedLines(parsed.skippedLines);
+  };
+
+  // ---------- Review edits ----------
+
+  const updateSections = (
+    fn: (sections: TemplateSection[]) => TemplateSection[]
+  ) => {
+    setDefinition((prev) => (prev ? { sections: fn(prev.sections) } : prev));
+  };
+
+  const updateSection = (sectionId: string, patch: Partial<TemplateSection>) => {
+    updateSections((sections) =>
+      sections.map((sec) => (sec.id === sectionId ? { ...sec, ...patch } : sec))
+    );
+  };
+
+  // A changed question has to be accepted again
+  const unaccept = (questionId: string) => {
+    setAccepted((prev) => {
+      if (!prev.has(questionId)) return prev;
+      const next = new Set(prev);
+      next.delete(questionId);
+      return next;
+    });
+  };
+
+  const updateQuestion = (
+    sectionId: string,
+    questionId: string,
+    patch: Partial<TemplateQuestion>
+  ) => {
+    unaccept(questionId);
+    updateSections((sections) =>
+      sections.map((sec) =>
+        sec.id === sectionId
+          ? {
+              ...sec,
+              questions: sec.questions.map((q) =>
+                q.id === questionId ? { ...q, ...patch } : q
+              ),
+            }
+          : sec
+      )
+    );
+  };
+
+  const deleteSection = (sectionId: string) => {
+    const sec = definition?.sections.find((s) => s.id === sectionId);
+    if (
+      sec &&
+      sec.questions.length &&
+      !confirm(
+        `Delete section "${sec.title}" and its ${sec.questions.length} question(s)?`
+      )
+    ) {
+      return;
+    }
+    updateSections((sections) => sections.filter((s) => s.id !== sectionId));
+  };
+
+  // Moves the questions to the end of the section above
+  const mergeSectionIntoPrevious = (sectionId: string) => {
+    updateSections((sections) => {
+      const index = sections.findIndex((s) => s.id === sectionId);
+      if (index < 1) return sections;
+      const previous = sections[index - 1];
+      const merged = {
+        ...previous,
+        questions: [...previous.questions, ...sections[index].questions],
+      };
+      return sections
+        .map((s, i) => (i === index - 1 ? merged : s))
+        .filter((s) => s.id !== sectionId);
+    });
+  };
+
+  const deleteQuestion = (sectionId: string, questionId: string) => {
+    updateSections((sections) =>
+      sections.map((sec) =>
+        sec.id === sectionId
+          ? { ...sec, questions: sec.questions.filter((q) => q.id !== questionId) }
+          : sec
+      )
+    );
+  };
+
+  // For one question the AI split in two: joins it onto the one above
+  const mergeQuestionWithPrevious = (sectionId: string, questionId: string) => {
+    const sec = definition?.sections.find((s) => s.id === sectionId);
+    const index = sec?.questions.findIndex((q) => q.id === questionId) ?? -1;
+    if (!sec || index < 1) return;
+    const previous = sec.questions[index - 1];
+    const current = sec.questions[index];
+    unaccept(previous.id);
+
+    updateSections((sections) =>
+      sections.map((s) =>
+        s.id === sectionId
+          ? {
+              ...s,
+              questions: s.questions
+                .map((q) =>
+                  q.id === previous.id
+                    ? { ...q, label: `${q.label} ${current.label}`.trim() }
+                    : q
+                )
+                .filter((q) => q.id !== questionId),
+            }
+          : s
+      )
+    );
+
+    const a = snippets[previous.id];
+    const b = snippets[questionId];
+    if (b && (!a || a.text !== b.text)) {
+      setSnippets((prev) => ({
+        ...prev,
+        [previous.id]: a ? { ...a, text: `${a.text} … ${b.text}` } : b,
+      }));
     }
   };
 
+  const setQuestionsAccepted = (ids: string[], value: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (value ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
   const handleSaveTemplate = async () => {
     if (!definition || !name.trim()) {
-      setError("Please generate a template with AI first.");
+      setError("Please generate a template first.");
+      return;
+    }
+    const unreviewed = definition.sections.reduce(
+      (acc, sec) => acc + sec.questions.filter((q) => !accepted.has(q.id)).length,
+      0
+    );
+    if (
+      unreviewed > 0 &&
+      !confirm(
+        `${unreviewed} question(s) haven't been accepted yet. Save them as they are?`
+      )
+    ) {
+      return;
+    }
+    if (
+      hasErrors(issues) &&
+      !confirm(
+        "The imported template has problems that must be fixed before it can be published:\n\n" +
+          summariseIssues(issues.filter((i) => i.level === "error")) +
+          "\n\nSave it as a draft anyway?"
+      )
+    ) {
       return;
     }
     setError(null);
     setSaving(true);
     try {
-      const { error } = await supabase.from("templates").insert({
-        name: name.trim(),
-        description: description.trim() || null,
-        site_id: selectedSiteId,
-        is_published: false,
-        logo_data_url: null,
-        definition,
-      });
+      const { data: created, error } = await supabase
+        .from("templates")
+        .insert({
+          name: name.trim(),
+          description: description.trim() || null,
+          site_id: selectedSiteId,
+          status: "draft",
+          is_published: false,
+          logo_data_url: null,
+          definition,
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
+      if (created?.id) {
+        await saveTemplateSites(
+          created.id,
+          selectedSiteId ? [selectedSiteId] : []
+        );
+      }
       onCreated();
     } catch (err: any) {
       console.error("save template error", err);
@@ -264,16 +621,21 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
   if (!open) return null;
 
   const wordCount = rawText ? rawText.split(/\s+/).length : 0;
-  const truncated = rawText.length > MAX_TEXT_CHARS;
+  const partCount = chunks.length;
   const questionCount =
     definition?.sections.reduce(
       (acc, s) => acc + (s.questions?.length || 0),
       0
     ) ?? 0;
+  const acceptedCount =
+    definition?.sections.reduce(
+      (acc, s) => acc + s.questions.filter((q) => accepted.has(q.id)).length,
+      0
+    ) ?? 0;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
-      <div className="w-full max-w-3xl max-h-[90vh] overflow-auto rounded-2xl bg-white shadow-xl p-5 space-y-4">
+      <div className="w-full max-w-5xl max-h-[90vh] overflow-auto rounded-2xl bg-white shadow-xl p-5 space-y-4">
         <div className="flex items-center justify-between gap-2">
           <div>
             <h2 className="text-lg font-semibold text-gray-900">
@@ -319,14 +681,8 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
               {rawText && !extracting && (
                 <p className="text-[11px] text-gray-400 mt-1">
                   Extracted about {wordCount} words from the PDF.
-                  {truncated && (
-                    <>
-                      {" "}
-                      <span className="text-amber-700">
-                        (Only the first {MAX_TEXT_CHARS.toLocaleString()}{" "}
-                        characters will be sent to AI.)
-                      </span>
-                    </>
+                  {partCount > 1 && (
+                    <> AI will convert it in {partCount} parts.</>
                   )}
                 </p>
               )}
@@ -359,15 +715,65 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
                 className="w-full px-3 py-2 rounded-xl bg-purple-700 text-white text-xs hover:bg-purple-800 disabled:opacity-50"
               >
                 {aiGenerating
-                  ? "Generating template with AI…"
+                  ? aiProgress && aiProgress.total > 1
+                    ? `Converting part ${Math.min(
+                        aiProgress.done + 1,
+                        aiProgress.total
+                      )} of ${aiProgress.total}…`
+                    : "Generating template with AI…"
                   : "Generate template with AI"}
               </button>
+              {aiGenerating && aiProgress && aiProgress.total > 1 && (
+                <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                  <div
+                    className="h-full bg-purple-600 transition-all"
+                    style={{
+                      width: `${(aiProgress.done / aiProgress.total) * 100}%`,
+                    }}
+                  />
+                </div>
+              )}
+              <button
+                onClick={handleImportWithoutAI}
+                disabled={!pdfLines.length || extracting || aiGenerating}
+                className="w-full px-3 py-2 rounded-xl border text-xs hover:bg-gray-50 disabled:opacity-50"
+              >
+                Import without AI
+              </button>
+              <p className="text-[10px] text-gray-400">
+                Without AI the PDF is read on this device using headings,
+                numbered items and checkboxes. Check the result before saving.
+              </p>
               {definition && (
                 <p className="text-[11px] text-gray-500">
-                  AI created {definition.sections.length} section(s) and{" "}
+                  {source === "local" ? "Found" : "AI created"}{" "}
+                  {definition.sections.length} section(s) and{" "}
                   {questionCount} question(s).
+                  {source === "local" && skippedLines > 0 && (
+                    <> {skippedLines} other line(s) were ignored.</>
+                  )}
+                </p>
+              )}
+              {definition && failedParts.length > 0 && (
+                <p className="text-[11px] text-amber-700">
+                  Part(s) {failedParts.join(", ")} could not be converted, so
+                  some questions may be missing. Generate again or add them in
+                  the editor.
                 </p>
               )}
+              {definition && corrections.length > 0 && (
+                <details className="text-[11px] text-gray-500">
+                  <summary className="cursor-pointer">
+                    The AI output was corrected in {corrections.length}{" "}
+                    place(s).
+                  </summary>
+                  <ul className="mt-1 max-h-32 overflow-auto space-y-0.5 font-mono text-[10px]">
+                    {corrections.map((c, i) => (
+                      <li key={i}>{c}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
             </div>
           </div>
 
@@ -397,32 +803,267 @@ const ImportTemplateFromPdfModal: React.FC<ImportTemplateFromPdfModalProps> = ({
                 placeholder="Short description of this template…"
               />
             </div>
+          </div>
+        </div>
 
-            {definition && (
-              <div className="border rounded-2xl bg-gray-50 p-3 text-[11px] space-y-1">
+        {/* Review – edit, merge, delete or accept each generated item */}
+        {definition && (
+          <div className="space-y-3 text-xs">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
                 <div className="font-semibold text-gray-800">
-                  AI structure preview
+                  Review {source === "local" ? "imported" : "AI"} template
                 </div>
-                {definition.sections.map((sec) => (
-                  <div key={sec.id} className="text-gray-600">
-                    <span className="font-medium">
-                      {sec.title || "Section"}
-                    </span>{" "}
-                    – {sec.questions.length} question(s)
-                  </div>
-                ))}
+                <p className="text-[11px] text-gray-500">
+                  Check each question against the PDF text next to it.{" "}
+                  {acceptedCount} of {questionCount} question(s) accepted.
+                </p>
               </div>
-            )}
-
-            <button
-              onClick={handleSaveTemplate}
-              disabled={!definition || saving}
-              className="w-full px-3 py-2 rounded-xl bg-emerald-600 text-white text-xs hover:bg-emerald-700 disabled:opacity-50"
-            >
-              {saving ? "Saving template…" : "Save template to AuditKing"}
-            </button>
+              <button
+                onClick={() =>
+                  setQuestionsAccepted(
+                    definition.sections.flatMap((s) =>
+                      s.questions.map((q) => q.id)
+                    ),
+                    true
+                  )
+                }
+                disabled={acceptedCount === questionCount}
+                className="px-3 py-1.5 rounded-xl border text-[11px] hover:bg-gray-50 disabled:opacity-50"
+              >
+                Accept all
+              </button>
+            </div>
+
+            {issues
+              .filter((i) => !i.section_id)
+              .map((issue, i) => (
+                <div key={i} className="text-[11px] text-rose-600">
+                  {issue.message}
+                </div>
+              ))}
+
+            {definition.sections.map((sec, si) => {
+              const secIssues = issuesFor(issues, sec.id);
+              const allAccepted =
+                sec.questions.length > 0 &&
+                sec.questions.every((q) => accepted.has(q.id));
+              return (
+                <div
+                  key={sec.id}
+                  className="border rounded-2xl bg-gray-50 p-3 space-y-2"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={sec.title}
+                      onChange={(e) =>
+                        updateSection(sec.id, { title: e.target.value })
+                      }
+                      className="flex-1 min-w-[180px] border rounded-xl px-3 py-1.5 text-xs font-medium bg-white"
+                      placeholder="Section title"
+                    />
+                    <span className="text-[11px] text-gray-500">
+                      {sec.questions.length} question(s)
+                    </span>
+                    <button
+                      onClick={() =>
+                        setQuestionsAccepted(
+                          sec.questions.map((q) => q.id),
+                          !allAccepted
+                        )
+                      }
+                      className="text-[11px] text-emerald-700 hover:underline"
+                    >
+                      {allAccepted ? "Unaccept section" : "Accept section"}
+                    </button>
+                    {si > 0 && (
+                      <button
+                        onClick={() => mergeSectionIntoPrevious(sec.id)}
+                        className="text-[11px] text-gray-600 hover:underline"
+                        title="Move these questions into the section above"
+                      >
+                        Merge into previous
+                      </button>
+                    )}
+                    <button
+                      onClick={() => deleteSection(sec.id)}
+                      className="text-[11px] text-rose-600 hover:underline"
+                    >
+                      Delete section
+                    </button>
+                  </div>
+                  {secIssues.map((issue, i) => (
+                    <div
+                      key={i}
+                      className={
+                        "text-[11px] " +
+                        (issue.level === "error"
+                          ? "text-rose-600"
+                          : "text-amber-700")
+                      }
+                    >
+                      {issue.message}
+                    </div>
+                  ))}
+
+                  {sec.questions.map((q, qi) => {
+                    const qIssues = issuesFor(issues, sec.id, q.id);
+                    const snippet = snippets[q.id];
+                    const isAccepted = accepted.has(q.id);
+                    return (
+                      <div
+                        key={q.id}
+                        className={
+                          "grid md:grid-cols-[1fr_260px] gap-2 rounded-xl border p-2 " +
+                          (isAccepted
+                            ? "bg-emerald-50 border-emerald-200"
+                            : "bg-white")
+                        }
+                      >
+                        <div className="space-y-1.5">
+                          <input
+                            type="text"
+                            value={q.label}
+                            onChange={(e) =>
+                              updateQuestion(sec.id, q.id, {
+                                label: e.target.value,
+                              })
+                            }
+                            className="w-full border rounded-xl px-2 py-1 text-xs"
+                            placeholder="Question text"
+                          />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <select
+                              value={q.type}
+                              onChange={(e) =>
+                                updateQuestion(sec.id, q.id, {
+                                  type: e.target.value as QuestionType,
+                                })
+                              }
+                              className="border rounded-xl px-2 py-1 text-[11px]"
+                            >
+                              {(Object.keys(TYPE_LABELS) as QuestionType[]).map(
+                                (t) => (
+                                  <option key={t} value={t}>
+                                    {TYPE_LABELS[t]}
+                                  </option>
+                                )
+                              )}
+                            </select>
+                            {q.type === "multiple_choice" && (
+                              <input
+                                key={(q.options || []).join("|")}
+                                type="text"
+                                defaultValue={(q.options || []).join(", ")}
+                                onBlur={(e) => {
+                                  const options = e.target.value
+                                    .split(",")
+                                    .map((o) => o.trim())
+                                    .filter(Boolean);
+                                  if (
+                                    options.join("|") !==
+                                    (q.options || []).join("|")
+                                  ) {
+                                    updateQuestion(sec.id, q.id, { options });
+                                  }
+                                }}
+                                className="flex-1 min-w-[160px] border rounded-xl px-2 py-1 text-[11px]"
+                                placeholder="Choices, separated by commas"
+                              />
+                            )}
+                            <label className="inline-flex items-center gap-1 text-[11px]">
+                              <input
+                                type="checkbox"
+                                checked={q.required}
+                                onChange={(e) =>
+                                  updateQuestion(sec.id, q.id, {
+                                    required: e.target.checked,
+                                  })
+                                }
+                              />
+                              <span>Required</span>
+                            </label>
+                          </div>
+                          {qIssues.map((issue, i) => (
+                            <div
+                              key={i}
+                              className={
+                                "text-[11px] " +
+                                (issue.level === "error"
+                                  ? "text-rose-600"
+                                  : "text-amber-700")
+                              }
+                            >
+                              {issue.message}
+                            </div>
+                          ))}
+                          <div className="flex flex-wrap gap-3 text-[11px]">
+                            <button
+                              onClick={() =>
+                                setQuestionsAccepted([q.id], !isAccepted)
+                              }
+                              className="text-emerald-700 hover:underline"
+                            >
+                              {isAccepted ? "✓ Accepted" : "Accept"}
+                            </button>
+                            {qi > 0 && (
+                              <button
+                                onClick={() =>
+                                  mergeQuestionWithPrevious(sec.id, q.id)
+                                }
+                                className="text-gray-600 hover:underline"
+                                title="Join this text onto the question above"
+                              >
+                                Merge with previous
+                              </button>
+                            )}
+                            <button
+                              onClick={() => deleteQuestion(sec.id, q.id)}
+                              className="text-rose-600 hover:underline"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+
+                        <div className="rounded-lg bg-gray-50 border border-dashed px-2 py-1 text-[11px] text-gray-600">
+                          {snippet ? (
+                            <>
+                              <div className="text-[10px] text-gray-400">
+                                PDF page {snippet.page}
+                              </div>
+                              <div className="whitespace-pre-wrap">
+                                {snippet.text}
+                              </div>
+                            </>
+                          ) : (
+                            <div className="text-gray-400 italic">
+                              No matching text found in the PDF.
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {sec.questions.length === 0 && (
+                    <p className="text-[11px] text-gray-400">
+                      No questions left in this section.
+                    </p>
+                  )}
+                </div>
+              );
+            })}
           </div>
-        </div>
+        )}
+
+        <button
+          onClick={handleSaveTemplate}
+          disabled={!definition || saving}
+          className="w-full px-3 py-2 rounded-xl bg-emerald-600 text-white text-xs hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {saving ? "Saving template…" : "Save template to AuditKing"}
+        </button>
       </div>
     </div>
   );
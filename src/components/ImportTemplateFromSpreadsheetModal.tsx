@@ -0,0 +1,565 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/utils/supabaseClient";
+import {
+  hasErrors,
+  summariseIssues,
+  validateTemplate,
+} from "@/utils/templateValidation";
+import { saveTemplateSites } from "@/utils/templateSites";
+import {
+  ColumnMapping,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  isExcelFile,
+  positionalMapping,
+  readSpreadsheet,
+  rowsToDefinition,
+  SAMPLE_CSV,
+  spreadsheetSheetNames,
+} from "@/utils/spreadsheetImport";
+
+type ImportTemplateFromSpreadsheetModalProps = {
+  open: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+};
+
+type SiteRow = {
+  id: string;
+  name: string;
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  yes_no_na: "Yes / No / N/A",
+  good_fair_poor: "Good / Fair / Poor",
+  multiple_choice: "Multiple choice",
+  text: "Text",
+  signature: "Signature",
+  number: "Number",
+  scan: "Scan",
+  location: "GPS location",
+};
+
+// Rows shown in the raw data preview
+const PREVIEW_ROWS = 5;
+
+const ImportTemplateFromSpreadsheetModal: React.FC<
+  ImportTemplateFromSpreadsheetModalProps
+> = ({ open, onClose, onCreated }) => {
+  const [sites, setSites] = useState<SiteRow[]>([]);
+  const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheet, setSheet] = useState<string>("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [rowNumbers, setRowNumbers] = useState<number[]>([]);
+  const [reading, setReading] = useState(false);
+
+  const [firstRowIsHeader, setFirstRowIsHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>(positionalMapping(0));
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rebuilt on every mapping change so the preview is always current
+  const result = useMemo(
+    () =>
+      rows.length && mapping.question !== null
+        ? rowsToDefinition({ rows, rowNumbers }, mapping, firstRowIsHeader)
+        : null,
+    [rows, rowNumbers, mapping, firstRowIsHeader]
+  );
+  const definition = result?.definition || null;
+
+  // Same checks as publishing; imports are saved as drafts to fix later
+  const issues = useMemo(
+    () => (definition ? validateTemplate(definition) : []),
+    [definition]
+  );
+
+  const columnCount = rows[0]?.length || 0;
+  const columnNames = Array.from({ length: columnCount }, (_, i) =>
+    firstRowIsHeader && rows[0][i]
+      ? rows[0][i]
+      : `Column ${String.fromCharCode(65 + (i % 26))}${
+          i >= 26 ? Math.floor(i / 26) : ""
+        }`
+  );
+
+  // Load sites so we can assign the template
+  useEffect(() => {
+    const loadSites = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("sites")
+          .select("id, name")
+          .order("name", { ascending: true });
+
+        if (error) throw error;
+        setSites(
+          (data || []).map((s: any) => ({
+            id: s.id,
+            name: s.name,
+          }))
+        );
+      } catch (e: any) {
+        console.error("loadSites error", e);
+      }
+    };
+
+    if (open) {
+      loadSites();
+    }
+  }, [open]);
+
+  // Reset when closing
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setSheetNames([]);
+      setSheet("");
+      setRows([]);
+      setFirstRowIsHeader(true);
+      setMapping(positionalMapping(0));
+      setName("");
+      setDescription("");
+      setSelectedSiteId(null);
+      setReading(false);
+      setSaving(false);
+      setError(null);
+    }
+  }, [open]);
+
+  const loadRows = async (f: File, sheetName?: string) => {
+    setReading(true);
+    setError(null);
+    try {
+      const { rows: data, rowNumbers: numbers } = await readSpreadsheet(
+        f,
+        sheetName
+      );
+      if (!data.length) {
+        setRows([]);
+        setError("That sheet is empty.");
+        return;
+      }
+      setRows(data);
+      setRowNumbers(numbers);
+
+      // Header names decide the mapping; otherwise assume the column order
+      const guessed = guessColumnMapping(data[0]);
+      const hasHeader = guessed.question !== null;
+      setFirstRowIsHeader(hasHeader);
+      setMapping(hasHeader ? guessed : positionalMapping(data[0].length));
+    } catch (err: any) {
+      console.error("Spreadsheet read error", err);
+      setRows([]);
+      setError(
+        "Could not read the file. Save it as .xlsx or .csv and try again."
+      );
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0] || null;
+    setFile(f);
+    setRows([]);
+    setSheetNames([]);
+    setSheet("");
+    setError(null);
+    if (!f) return;
+
+    setName(f.name.replace(/\.(csv|xlsx)$/i, ""));
+    setDescription("Template imported from a spreadsheet.");
+
+    if (isExcelFile(f)) {
+      try {
+        const names = await spreadsheetSheetNames(f);
+        setSheetNames(names);
+        setSheet(names[0] || "");
+        await loadRows(f, names[0]);
+      } catch (err) {
+        console.error("readSheetNames error", err);
+        setError("Could not read the workbook.");
+      }
+    } else {
+      await loadRows(f);
+    }
+  };
+
+  const handleSheetChange = async (sheetName: string) => {
+    setSheet(sheetName);
+    if (file) await loadRows(file, sheetName);
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping((prev) => ({
+      ...prev,
+      [field]: value === "" ? null : Number(value),
+    }));
+  };
+
+  const handleDownloadSample = () => {
+    const blob = new Blob([SAMPLE_CSV], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "checklist-example.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!definition || !name.trim()) {
+      setError("Choose a file and a question column first.");
+      return;
+    }
+    if (
+      hasErrors(issues) &&
+      !confirm(
+        "The imported template has problems that must be fixed before it can be published:\n\n" +
+          summariseIssues(issues.filter((i) => i.level === "error")) +
+          "\n\nSave it as a draft anyway?"
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      const { data: created, error } = await supabase
+        .from("templates")
+        .insert({
+          name: name.trim(),
+          description: description.trim() || null,
+          site_id: selectedSiteId,
+          status: "draft",
+          is_published: false,
+          logo_data_url: null,
+          definition,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      if (created?.id) {
+        await saveTemplateSites(
+          created.id,
+          selectedSiteId ? [selectedSiteId] : []
+        );
+      }
+      onCreated();
+    } catch (err: any) {
+      console.error("save template error", err);
+      setError(err?.message || "Could not save template.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const questionCount =
+    definition?.sections.reduce((acc, s) => acc + s.questions.length, 0) ?? 0;
+  const dataRows = rows.slice(firstRowIsHeader ? 1 : 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-auto rounded-2xl bg-white shadow-xl p-5 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Import template from spreadsheet
+            </h2>
+            <p className="text-xs text-gray-500">
+              One question per row. Columns like section, question, type,
+              options, required and allowPhoto are recognised automatically.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-800"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-2 text-xs text-rose-700">
+            {error}
+          </div>
+        )}
+
+        {/* File + template details */}
+        <div className="grid md:grid-cols-2 gap-4 text-xs">
+          <div className="space-y-3">
+            <div>
+              <label className="block text-[11px] text-gray-600 mb-1">
+                CSV or XLSX file
+              </label>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={handleFileChange}
+                className="w-full border rounded-xl px-3 py-2 text-xs"
+              />
+              <div className="flex items-center justify-between mt-1 text-[11px]">
+                <span className="text-gray-500">
+                  {reading
+                    ? "Reading file…"
+                    : rows.length
+                    ? `${dataRows.length} row(s) found.`
+                    : ""}
+                </span>
+                <button
+                  onClick={handleDownloadSample}
+                  className="text-purple-700 hover:underline"
+                >
+                  Download example CSV
+                </button>
+              </div>
+            </div>
+
+            {sheetNames.length > 1 && (
+              <div>
+                <label className="block text-[11px] text-gray-600 mb-1">
+                  Sheet
+                </label>
+                <select
+                  value={sheet}
+                  onChange={(e) => handleSheetChange(e.target.value)}
+                  className="w-full border rounded-xl px-3 py-2 text-xs"
+                >
+                  {sheetNames.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-[11px] text-gray-600 mb-1">
+                Assign to site
+              </label>
+              <select
+                value={selectedSiteId ?? ""}
+                onChange={(e) => setSelectedSiteId(e.target.value || null)}
+                className="w-full border rounded-xl px-3 py-2 text-xs"
+              >
+                <option value="">All sites</option>
+                {sites.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <label className="block text-[11px] text-gray-600 mb-1">
+                Template name
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full border rounded-xl px-3 py-2 text-xs"
+                placeholder="e.g. Monthly Fire Safety Checklist"
+              />
+            </div>
+            <div>
+              <label className="block text-[11px] text-gray-600 mb-1">
+                Description
+              </label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full border rounded-xl px-3 py-2 text-xs min-h-[60px]"
+                placeholder="Short description of this template…"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Column mapping */}
+        {rows.length > 0 && (
+          <div className="border rounded-2xl p-3 space-y-3 text-xs">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="font-semibold text-gray-800">Columns</div>
+              <label className="inline-flex items-center gap-1 text-[11px]">
+                <input
+                  type="checkbox"
+                  checked={firstRowIsHeader}
+                  onChange={(e) => setFirstRowIsHeader(e.target.checked)}
+                />
+                <span>First row contains headings</span>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <label key={field} className="block">
+                  <span className="block text-[11px] text-gray-500 mb-1">
+                    {label}
+                    {field === "question" && (
+                      <span className="text-rose-600"> *</span>
+                    )}
+                  </span>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) => updateMapping(field, e.target.value)}
+                    className="w-full border rounded-xl px-2 py-1 text-[11px]"
+                  >
+                    <option value="">— Not in file —</option>
+                    {columnNames.map((col, i) => (
+                      <option key={i} value={i}>
+                        {col}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="overflow-auto">
+              <table className="min-w-full text-[11px] border">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    {columnNames.map((col, i) => (
+                      <th key={i} className="px-2 py-1 text-left font-medium">
+                        {col}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataRows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                    <tr key={r} className="border-t">
+                      {row.map((cell, c) => (
+                        <td
+                          key={c}
+                          className="px-2 py-1 text-gray-700 max-w-[200px] truncate"
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {dataRows.length > PREVIEW_ROWS && (
+                <div className="text-[10px] text-gray-400 mt-1">
+                  …and {dataRows.length - PREVIEW_ROWS} more row(s)
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Resulting template */}
+        {rows.length > 0 && !definition && (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+            Choose which column holds the question text.
+          </div>
+        )}
+
+        {definition && result && (
+          <div className="border rounded-2xl bg-gray-50 p-3 text-[11px] space-y-2">
+            <div className="font-semibold text-gray-800">
+              Preview – {definition.sections.length} section(s),{" "}
+              {questionCount} question(s)
+            </div>
+
+            {result.warnings.length > 0 && (
+              <ul className="space-y-0.5 text-amber-700">
+                {result.warnings.slice(0, 10).map((w, i) => (
+                  <li key={i}>• {w}</li>
+                ))}
+                {result.warnings.length > 10 && (
+                  <li>…and {result.warnings.length - 10} more.</li>
+                )}
+              </ul>
+            )}
+
+            {issues
+              .filter((i) => !i.section_id)
+              .map((issue, i) => (
+                <div
+                  key={i}
+                  className={
+                    issue.level === "error" ? "text-rose-600" : "text-amber-700"
+                  }
+                >
+                  {issue.message}
+                </div>
+              ))}
+
+            <div className="max-h-72 overflow-auto space-y-2">
+              {definition.sections.map((sec) => (
+                <div key={sec.id} className="space-y-0.5">
+                  <div className="font-medium text-gray-800">{sec.title}</div>
+                  {sec.questions.map((q) => {
+                    const qIssues = issues.filter(
+                      (i) => i.question_id === q.id
+                    );
+                    return (
+                      <div key={q.id} className="ml-3 text-gray-600">
+                        <span>{q.label}</span>{" "}
+                        <span className="text-gray-400">
+                          – {TYPE_LABELS[q.type] || q.type}
+                          {q.options.length > 0 && `: ${q.options.join(" / ")}`}
+                          {q.required && " • required"}
+                          {!q.allowPhoto && " • no photos"}
+                        </span>
+                        {qIssues.map((issue, i) => (
+                          <div
+                            key={i}
+                            className={
+                              issue.level === "error"
+                                ? "text-rose-600"
+                                : "text-amber-700"
+                            }
+                          >
+                            {issue.message}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 text-xs">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 rounded-xl border hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSaveTemplate}
+            disabled={!definition || !questionCount || saving}
+            className="px-3 py-2 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {saving ? "Saving template…" : "Save as draft template"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportTemplateFromSpreadsheetModal;
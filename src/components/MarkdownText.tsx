@@ -0,0 +1,76 @@
+// src/components/MarkdownText.tsx
+import React from "react";
+import { MdInline, parseMarkdown } from "@/utils/markdown";
+
+type MarkdownTextProps = {
+  source: string | null | undefined;
+  className?: string;
+};
+
+function renderInlines(inlines: MdInline[]) {
+  return inlines.map((part, i) => {
+    let node: React.ReactNode = part.text;
+    if (part.code) {
+      node = (
+        <code className="px-1 rounded bg-gray-100 text-[0.95em]">{node}</code>
+      );
+    }
+    if (part.bold) node = <strong>{node}</strong>;
+    if (part.italic) node = <em>{node}</em>;
+    if (part.href) {
+      node = (
+        <a
+          href={part.href}
+          target="_blank"
+          rel="noreferrer"
+          className="text-purple-700 underline"
+        >
+          {node}
+        </a>
+      );
+    }
+    return <React.Fragment key={i}>{node}</React.Fragment>;
+  });
+}
+
+// Renders the small markdown subset from utils/markdown
+const MarkdownText: React.FC<MarkdownTextProps> = ({ source, className }) => {
+  const blocks = parseMarkdown(source);
+  if (!blocks.length) return null;
+
+  return (
+    <div className={`space-y-1.5 ${className || ""}`}>
+      {blocks.map((block, i) => {
+        if (block.kind === "heading") {
+          return (
+            <div
+              key={i}
+              className={`font-semibold ${
+                block.level === 1 ? "text-sm" : "text-xs"
+              }`}
+            >
+              {renderInlines(block.inlines)}
+            </div>
+          );
+        }
+        if (block.kind === "list") {
+          const items = block.items.map((item, j) => (
+            <li key={j}>{renderInlines(item)}</li>
+          ));
+          return block.ordered ? (
+            <ol key={i} className="list-decimal pl-5 space-y-0.5">
+              {items}
+            </ol>
+          ) : (
+            <ul key={i} className="list-disc pl-5 space-y-0.5">
+              {items}
+            </ul>
+          );
+        }
+        return <p key={i}>{renderInlines(block.inlines)}</p>;
+      })}
+    </div>
+  );
+};
+
+export default MarkdownText;
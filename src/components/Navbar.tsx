@@ -26,6 +26,12 @@ export default function Navbar() {
           <Link to="/inspections" className="hover:underline">
             Inspections
           </Link>
+          <Link to="/schedules" className="hover:underline">
+            Schedules
+          </Link>
+          <Link to="/response-sets" className="hover:underline">
+            Response sets
+          </Link>
           <Link to="/sites" className="hover:underline">
             Sites
           </Link>
@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  deleteLibraryQuestion,
+  LibraryQuestion,
+  loadLibraryQuestions,
+  pushLibraryQuestion,
+} from "@/utils/questionLibrary";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  onInsert: (q: LibraryQuestion) => void;
+  onPushed?: (q: LibraryQuestion) => void;
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  yes_no_na: "Yes / No / N/A",
+  good_fair_poor: "Good / Fair / Poor",
+  multiple_choice: "Multiple choice",
+  text: "Text only",
+  signature: "Signature",
+  number: "Number / reading",
+  response_set: "Response set",
+  scan: "Scan (QR / barcode)",
+  location: "GPS location",
+};
+
+export default function QuestionLibraryModal({
+  open,
+  onClose,
+  onInsert,
+  onPushed,
+}: Props) {
+  const [questions, setQuestions] = useState<LibraryQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setQuestions(await loadLibraryQuestions());
+    } catch (e: any) {
+      console.error("loadLibraryQuestions error", e);
+      setError(e?.message || "Could not load the question library.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+  }, [open]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return questions;
+    return questions.filter(
+      (q) =>
+        q.label.toLowerCase().includes(term) ||
+        (TYPE_LABELS[q.type] || q.type).toLowerCase().includes(term) ||
+        (q.question.options || []).some((o: string) =>
+          o.toLowerCase().includes(term)
+        )
+    );
+  }, [questions, search]);
+
+  const handlePush = async (q: LibraryQuestion) => {
+    if (
+      !window.confirm(
+        `Update every template you can edit that uses "${q.label}"? Published templates are submitted for review and stay unchanged until approved.`
+      )
+    ) {
+      return;
+    }
+    setBusyId(q.id);
+    try {
+      const { updated, submitted } = await pushLibraryQuestion(q);
+      onPushed?.(q);
+      alert(
+        `Updated ${updated} template(s).` +
+          (submitted
+            ? ` ${submitted} published template(s) were submitted for review.`
+            : "")
+      );
+    } catch (e: any) {
+      console.error("pushLibraryQuestion error", e);
+      alert(e?.message || "Could not update templates.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (q: LibraryQuestion) => {
+    if (
+      !window.confirm(
+        `Delete "${q.label}" from the library? Templates keep their copies.`
+      )
+    ) {
+      return;
+    }
+    setBusyId(q.id);
+    try {
+      await deleteLibraryQuestion(q.id);
+      setQuestions((prev) => prev.filter((x) => x.id !== q.id));
+    } catch (e: any) {
+      console.error("deleteLibraryQuestion error", e);
+      alert(e?.message || "Could not delete question.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-auto rounded-2xl bg-white shadow-xl p-5 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Question library
+            </h2>
+            <p className="text-xs text-gray-500">
+              Insert a standard question as a linked copy. Use "Save to
+              library" on any question to add it here.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-sm text-gray-500 hover:text-gray-800"
+          >
+            Close
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-2 text-xs text-rose-700">
+            {error}
+          </div>
+        )}
+
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full border rounded-xl px-3 py-2 text-xs"
+          placeholder="Search questions…"
+        />
+
+        {loading ? (
+          <div className="text-xs text-gray-500">Loading library…</div>
+        ) : filtered.length === 0 ? (
+          <div className="rounded-xl border bg-gray-50 p-3 text-xs text-gray-500">
+            {questions.length === 0
+              ? "The library is empty."
+              : "No questions match your search."}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {filtered.map((q) => (
+              <div
+                key={q.id}
+                className="border rounded-xl p-3 text-xs flex items-start justify-between gap-3"
+              >
+                <div className="space-y-1">
+                  <div className="font-medium text-gray-800">{q.label}</div>
+                  <div className="flex flex-wrap gap-1 text-[10px] text-gray-500">
+                    <span className="px-2 py-0.5 rounded-full bg-gray-100">
+                      {TYPE_LABELS[q.type] || q.type}
+                    </span>
+                    {q.question.required && (
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100">
+                        Required
+                      </span>
+                    )}
+                    {q.question.critical && (
+                      <span className="px-2 py-0.5 rounded-full bg-rose-50 text-rose-700">
+                        Critical
+                      </span>
+                    )}
+                    {(q.question.options || []).length > 0 && (
+                      <span>{q.question.options.join(", ")}</span>
+                    )}
+                  </div>
+                  {q.created_by_name && (
+                    <div className="text-[10px] text-gray-400">
+                      Added by {q.created_by_name}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => onInsert(q)}
+                    className="px-3 py-1 rounded-xl bg-purple-700 text-white text-[11px] hover:bg-purple-800"
+                  >
+                    Insert
+                  </button>
+                  <button
+                    onClick={() => handlePush(q)}
+                    disabled={busyId === q.id}
+                    className="text-[11px] text-purple-700 hover:underline disabled:opacity-50"
+                  >
+                    Push to templates
+                  </button>
+                  <button
+                    onClick={() => handleDelete(q)}
+                    disabled={busyId === q.id}
+                    className="text-[11px] text-rose-600 hover:underline disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef } from "react";
+
+type Props = {
+  value: string | null; // PNG data URL
+  onChange: (dataUrl: string | null) => void;
+  disabled?: boolean;
+};
+
+const CANVAS_WIDTH = 500;
+const CANVAS_HEIGHT = 160;
+
+/**
+ * Touch / mouse / pen signature pad built on a plain canvas.
+ * Emits a PNG data URL after every stroke.
+ */
+export default function SignaturePad({ value, onChange, disabled }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const lastEmittedRef = useRef<string | null>(null);
+
+  // Paint a saved signature (skip values we produced ourselves)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (value && value === lastEmittedRef.current) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    lastEmittedRef.current = value;
+    if (!value) return;
+
+    const img = new Image();
+    img.onload = () => ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    img.src = value;
+  }, [value]);
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    lastPointRef.current = pointFor(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current || !lastPointRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+
+    const p = pointFor(e);
+    ctx.strokeStyle = "#111827";
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+    lastPointRef.current = p;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    const url = e.currentTarget.toDataURL("image/png");
+    lastEmittedRef.current = url;
+    onChange(url);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (canvas && ctx) ctx.clearRect(0, 0, canvas.width, canvas.height);
+    lastEmittedRef.current = null;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full max-w-md h-32 border rounded-xl bg-white touch-none ${
+          disabled ? "opacity-60 cursor-not-allowed" : "cursor-crosshair"
+        }`}
+      />
+      <div className="flex items-center justify-between max-w-md text-[10px] text-gray-400">
+        <span>Sign above with your finger, pen or mouse.</span>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="text-rose-600 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import React from "react";
+import type {
+  VisibilityCondition,
+  VisibilityOperator,
+  VisibilityRule,
+} from "@/utils/visibility";
+
+// A question that a rule can point at
+export type RuleCandidate = {
+  id: string;
+  label: string;
+  section_title: string;
+  type: string;
+  options?: string[];
+  choices?: { key: string; label: string }[]; // e.g. response set answers
+};
+
+type Props = {
+  rule: VisibilityRule | null | undefined;
+  candidates: RuleCandidate[];
+  onChange: (rule: VisibilityRule | null) => void;
+};
+
+const OPERATOR_LABELS: { value: VisibilityOperator; label: string }[] = [
+  { value: "equals", label: "is" },
+  { value: "not_equals", label: "is not" },
+  { value: "is_answered", label: "is answered" },
+  { value: "is_not_answered", label: "is not answered" },
+];
+
+// Values we can offer in a dropdown for a given question type
+function valueChoicesFor(
+  candidate: RuleCandidate | undefined
+): { key: string; label: string }[] | null {
+  if (!candidate) return null;
+  if (candidate.choices) return candidate.choices;
+  if (candidate.type === "yes_no_na") {
+    return [
+      { key: "yes", label: "Yes" },
+      { key: "no", label: "No" },
+      { key: "na", label: "N/A" },
+    ];
+  }
+  if (candidate.type === "good_fair_poor") {
+    return [
+      { key: "good", label: "Good" },
+      { key: "fair", label: "Fair" },
+      { key: "poor", label: "Poor" },
+    ];
+  }
+  if (candidate.type === "multiple_choice") {
+    return (candidate.options || []).map((o) => ({ key: o, label: o }));
+  }
+  return null;
+}
+
+export default function VisibilityRuleEditor({
+  rule,
+  candidates,
+  onChange,
+}: Props) {
+  const conditions = rule?.conditions || [];
+
+  const updateCondition = (
+    index: number,
+    patch: Partial<VisibilityCondition>
+  ) => {
+    onChange({
+      match: rule?.match || "all",
+      conditions: conditions.map((c, i) =>
+        i === index ? { ...c, ...patch } : c
+      ),
+    });
+  };
+
+  const addCondition = () => {
+    const first = candidates[0];
+    const choices = valueChoicesFor(first);
+    onChange({
+      match: rule?.match || "all",
+      conditions: [
+        ...conditions,
+        {
+          question_id: first ? first.id : "",
+          operator: "equals",
+          value: choices && choices.length ? choices[0].key : "",
+        },
+      ],
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    const next = conditions.filter((_, i) => i !== index);
+    onChange(next.length ? { match: rule?.match || "all", conditions: next } : null);
+  };
+
+  if (candidates.length === 0) {
+    return (
+      <div className="text-[11px] text-gray-400">
+        Add other questions first to build show/hide rules.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-[11px]">
+      {conditions.length === 0 ? (
+        <div className="text-gray-500">Always shown.</div>
+      ) : (
+        <div className="flex items-center gap-2 text-gray-600">
+          <span>Show only when</span>
+          <select
+            value={rule?.match || "all"}
+            onChange={(e) =>
+              onChange({
+                match: e.target.value as "all" | "any",
+                conditions,
+              })
+            }
+            className="border rounded-xl px-2 py-0.5"
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these match:</span>
+        </div>
+      )}
+
+      {conditions.map((c, index) => {
+        const candidate = candidates.find((q) => q.id === c.question_id);
+        const choices = valueChoicesFor(candidate);
+        const needsValue =
+          c.operator === "equals" || c.operator === "not_equals";
+
+        return (
+          <div key={index} className="flex flex-wrap gap-2 items-center">
+            <select
+              value={c.question_id}
+              onChange={(e) => {
+                const nextCandidate = candidates.find(
+                  (q) => q.id === e.target.value
+                );
+                const nextChoices = valueChoicesFor(nextCandidate);
+                updateCondition(index, {
+                  question_id: e.target.value,
+                  value:
+                    nextChoices && nextChoices.length
+                      ? nextChoices[0].key
+                      : "",
+                });
+              }}
+              className="border rounded-xl px-2 py-0.5 max-w-[240px]"
+            >
+              {!candidate && (
+                <option value={c.question_id}>(missing question)</option>
+              )}
+              {candidates.map((q) => (
+                <option key={q.id} value={q.id}>
+                  {q.section_title ? `${q.section_title} › ` : ""}
+                  {q.label || "Untitled question"}
+                </option>
+              ))}
+            </select>
+            <select
+              value={c.operator}
+              onChange={(e) =>
+                updateCondition(index, {
+                  operator: e.target.value as VisibilityOperator,
+                })
+              }
+              className="border rounded-xl px-2 py-0.5"
+            >
+              {OPERATOR_LABELS.map((op) => (
+                <option key={op.value} value={op.value}>
+                  {op.label}
+                </option>
+              ))}
+            </select>
+            {needsValue &&
+              (choices ? (
+                <select
+                  value={c.value || ""}
+                  onChange={(e) =>
+                    updateCondition(index, { value: e.target.value })
+                  }
+                  className="border rounded-xl px-2 py-0.5"
+                >
+                  {choices.map((ch) => (
+                    <option key={ch.key} value={ch.key}>
+                      {ch.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  value={c.value || ""}
+                  onChange={(e) =>
+                    updateCondition(index, { value: e.target.value })
+                  }
+                  className="border rounded-xl px-2 py-0.5"
+                  placeholder="Value…"
+                />
+              ))}
+            <button
+              onClick={() => removeCondition(index)}
+              className="text-rose-600 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addCondition}
+        className="px-2 py-0.5 border rounded-xl bg-white hover:bg-gray-50"
+      >
+        + Add condition
+      </button>
+    </div>
+  );
+}
@@ -1,29 +1,146 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
+import { supabase } from '@/utils/supabaseClient'
+import { dueStateOf, generateDueInspections } from '@/utils/schedules'
+
+type DueInspection = {
+  id: string
+  template_name: string
+  site: string | null
+  site_id: string | null
+  status: string
+  due_at: string | null
+  owner_name: string | null
+}
+
+function formatDue(iso: string | null) {
+  if (!iso) return '—'
+  const d = new Date(iso)
+  return d.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
 
 export default function DashboardPage() {
+  const [due, setDue] = useState<DueInspection[]>([])
+  const [dueLoading, setDueLoading] = useState(true)
+
+  useEffect(() => {
+    async function loadDue() {
+      setDueLoading(true)
+      try {
+        try {
+          await generateDueInspections()
+        } catch (e) {
+          console.error('generateDueInspections error', e)
+        }
+
+        const { data: userData } = await supabase.auth.getUser()
+        const user = userData?.user
+        if (!user) return
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('role')
+          .eq('user_id', user.id)
+          .single()
+        const isAdmin = profile?.role === 'admin'
+
+        // due up to the end of today, still open
+        const endOfToday = new Date()
+        endOfToday.setHours(23, 59, 59, 999)
+        const { data, error } = await supabase
+          .from('inspections')
+          .select('id, template_name, site, site_id, status, due_at, owner_name')
+          .eq('status', 'in_progress')
+          .not('due_at', 'is', null)
+          .lte('due_at', endOfToday.toISOString())
+          .order('due_at', { ascending: true })
+        if (error) throw error
+
+        let list = (data || []) as DueInspection[]
+        if (!isAdmin) {
+          const { data: usites } = await supabase
+            .from('user_sites')
+            .select('site_id')
+            .eq('user_id', user.id)
+          const allowed = (usites || []).map((r: any) => r.site_id)
+          list = list.filter(i => !i.site_id || allowed.includes(i.site_id))
+        }
+        setDue(list)
+      } catch (e) {
+        console.error('loadDue error', e)
+        setDue([])
+      } finally {
+        setDueLoading(false)
+      }
+    }
+    loadDue()
+  }, [])
+
+  const overdue = due.filter(i => dueStateOf(i) === 'overdue')
+  const dueToday = due.filter(i => dueStateOf(i) === 'due_today')
+
   const cards = [
     { title: 'Templates', to: '/templates', desc: 'Build and manage checklists.' },
     { title: 'Inspections', to: '/inspections', desc: 'Run and review inspections.' },
+    { title: 'Schedules', to: '/schedules', desc: 'Plan recurring inspections.' },
     { title: 'Actions', to: '/actions', desc: 'Track follow-up actions.' },
     { title: 'Sites', to: '/sites', desc: 'Manage sites and locations.' },
     { title: 'Users', to: '/users', desc: 'Invite and manage users.' },
   ]
+
+  const renderDueList = (title: string, list: DueInspection[], tone: string, empty: string) => (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-5 space-y-2">
+      <h2 className={`text-sm font-semibold ${tone}`}>
+        {title} ({list.length})
+      </h2>
+      {dueLoading ? (
+        <p className="text-xs text-gray-400">Loading…</p>
+      ) : list.length === 0 ? (
+        <p className="text-xs text-gray-500">{empty}</p>
+      ) : (
+        <ul className="space-y-1">
+          {list.slice(0, 8).map(i => (
+            <li key={i.id} className="text-xs text-gray-700 flex justify-between gap-2">
+              <span className="truncate">
+                {i.template_name}
+                {i.site && <span className="text-gray-400"> • {i.site}</span>}
+              </span>
+              <span className="text-gray-500 flex-shrink-0">{formatDue(i.due_at)}</span>
+            </li>
+          ))}
+          {list.length > 8 && (
+            <li className="text-[11px] text-gray-400">and {list.length - 8} more…</li>
+          )}
+        </ul>
+      )}
+      <Link to="/inspections" className="inline-block text-xs text-purple-700 hover:underline">
+        Open inspections
+      </Link>
+    </div>
+  )
+
   return (
-    <div className="max-w-5xl mx-auto py-6 grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-      {cards.map(card => (
-        <Link
-          key={card.to}
-          to={card.to}
-          className="bg-white rounded-2xl shadow-sm border border-gray-200 p-5 hover:shadow-md transition flex flex-col justify-between"
-        >
-          <div>
-            <h2 className="text-lg font-semibold text-royal-700">{card.title}</h2>
-            <p className="text-sm text-gray-600 mt-1">{card.desc}</p>
-          </div>
-          <span className="mt-4 text-xs text-gray-500">Open</span>
-        </Link>
-      ))}
+    <div className="max-w-5xl mx-auto py-6 space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        {renderDueList('Overdue', overdue, 'text-rose-700', 'Nothing overdue.')}
+        {renderDueList('Due today', dueToday, 'text-amber-700', 'Nothing due today.')}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {cards.map(card => (
+          <Link
+            key={card.to}
+            to={card.to}
+            className="bg-white rounded-2xl shadow-sm border border-gray-200 p-5 hover:shadow-md transition flex flex-col justify-between"
+          >
+            <div>
+              <h2 className="text-lg font-semibold text-royal-700">{card.title}</h2>
+              <p className="text-sm text-gray-600 mt-1">{card.desc}</p>
+            </div>
+            <span className="mt-4 text-xs text-gray-500">Open</span>
+          </Link>
+        ))}
+      </div>
     </div>
   )
 }
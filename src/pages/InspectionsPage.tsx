@@ -2,21 +2,88 @@
 import React, { useEffect, useMemo, useState } from "react";
 import jsPDF from "jspdf";
 import { supabase } from "@/utils/supabaseClient";
+import SignaturePad from "@/components/SignaturePad";
+import MarkdownText from "@/components/MarkdownText";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import { matchesExpectedPattern } from "@/utils/barcode";
+import {
+  formatGeoPoint,
+  GeoPoint,
+  getCurrentLocation,
+  mapUrlFor,
+  tryGetCurrentLocation,
+} from "@/utils/geolocation";
+import { markdownToPlainLines } from "@/utils/markdown";
+import {
+  BASE_LANGUAGE,
+  choiceLabel,
+  LANGUAGES,
+  optionLabel,
+  pdfLabel,
+  pdfSafeText,
+  QuestionTranslation,
+  questionGuidance,
+  questionLabel,
+  SectionTranslation,
+  sectionInstanceLabel,
+  sectionTitle,
+  templateLanguages,
+} from "@/utils/translations";
+import { loadInspectionTemplate } from "@/utils/templateVersions";
+import { dueStateOf, generateDueInspections } from "@/utils/schedules";
+import {
+  canAccessTemplateSites,
+  loadTemplateSiteMap,
+} from "@/utils/templateSites";
+import {
+  colorStyle,
+  ResponseSet,
+  responseFraction,
+} from "@/utils/responseSets";
+import {
+  computeHidden,
+  HiddenState,
+  questionKey,
+  VisibilityRule,
+} from "@/utils/visibility";
+import { randomId } from "@/utils/ids";
 
 type Role = "admin" | "manager" | "inspector" | string | null;
 // IMPORTANT: match DB constraint: 'in_progress' | 'submitted'
 type Status = "in_progress" | "submitted";
 
-type QuestionType = "yes_no_na" | "good_fair_poor" | "multiple_choice" | "text";
+type QuestionType =
+  | "yes_no_na"
+  | "good_fair_poor"
+  | "multiple_choice"
+  | "text"
+  | "signature"
+  | "number"
+  | "response_set"
+  | "scan"
+  | "location";
 
 type TemplateQuestion = {
   id: string;
   label: string;
   type: QuestionType;
   options?: string[];
+  unit?: string;
+  min?: number | null;
+  max?: number | null;
+  decimals?: number | null;
+  response_set?: ResponseSet | null; // snapshot taken in the editor
+  expected_pattern?: string; // scan only
+  weight?: number; // scoring weight, default 1
+  optionScores?: Record<string, number>; // multiple_choice option -> points
+  critical?: boolean; // a negative answer fails the whole inspection
   allowNotes: boolean;
   allowPhoto: boolean;
   required: boolean;
+  visibility?: VisibilityRule | null;
+  guidance?: string; // markdown help text
+  reference_images?: string[]; // data URLs
+  translations?: Record<string, QuestionTranslation>;
 };
 
 type TemplateSection = {
@@ -24,16 +91,65 @@ type TemplateSection = {
   title: string;
   is_title?: boolean; // title-only block support
   image_data_url?: string | null;
+  visibility?: VisibilityRule | null;
+  weight?: number; // section weight in the overall score, default 1
+  repeatable?: boolean; // inspector can add several instances (assets)
+  instance_label?: string; // e.g. "Extinguisher"
   questions: TemplateQuestion[];
+  translations?: Record<string, SectionTranslation>;
+};
+
+// One copy of a repeatable section, e.g. "Extinguisher #1 – Kitchen"
+type SectionInstance = {
+  id: string;
+  label: string;
 };
 
 type TemplateDefinition = {
   sections: TemplateSection[];
+  languages?: string[]; // translations available besides English
+  scoring?: {
+    pass_threshold?: number | null; // overall % needed to pass
+  };
+  pdf?: {
+    guidance_appendix?: boolean;
+  };
+};
+
+type SectionScore = {
+  section_id: string;
+  title: string;
+  earned: number;
+  max: number;
+  percent: number;
+  weight: number;
+};
+
+type CriticalFailure = {
+  section_title: string;
+  question_label: string;
+  answer: string;
+};
+
+type ScoreBreakdown = {
+  score: number | null;
+  sections: SectionScore[];
+  pass_threshold: number | null;
+  passed: boolean | null; // null when there is no threshold or no score
+  critical_failures: CriticalFailure[]; // any of these fails the inspection
+};
+
+type SignatureCapture = {
+  data_url: string | null; // PNG drawn on the signature pad
+  signer_name: string;
+  signed_at: string | null;
 };
 
 type InspectionItem = {
   section_id: string;
   section_title: string;
+  instance_id?: string | null; // repeatable sections only
+  instance_label?: string | null;
   question_id: string;
   question_label: string;
   type: QuestionType;
@@ -42,7 +158,12 @@ type InspectionItem = {
   choice_label: string | null;
   notes: string | null;
   photos: string[];
+  signature?: SignatureCapture | null;
+  location?: GeoPoint | null; // location questions
+  out_of_range?: boolean | null; // number questions: null = no range / no reading
+  critical_failure?: boolean; // critical question answered negatively
   required: boolean;
+  hidden?: boolean; // skipped by conditional logic when saved
   answered_by_user_id: string | null;
   answered_by_name: string | null;
 };
@@ -51,15 +172,22 @@ type InspectionRow = {
   id: string;
   template_id: string;
   template_name: string;
+  template_version: number | null; // null = started before versioning
   site_id: string | null;
   site: string | null;
   status: Status;
-  started_at: string;
+  started_at: string | null; // null = generated by a schedule, not opened yet
   submitted_at: string | null;
   score: number | null;
+  passed: boolean | null; // false on a critical failure, whatever the score
+  critical_failed: boolean;
   items: InspectionItem[] | null;
   owner_user_id: string | null;
   owner_name: string | null;
+  schedule_id: string | null; // generated by a recurring schedule
+  due_at: string | null;
+  start_location: GeoPoint | null; // device position on first save
+  submit_location: GeoPoint | null; // device position when completed
 };
 
 type SiteRow = {
@@ -70,6 +198,8 @@ type SiteRow = {
 type ModalAnswer = {
   section_id: string;
   section_title: string;
+  instance_id: string | null;
+  instance_label: string | null;
   question_id: string;
   question_label: string;
   type: QuestionType;
@@ -78,11 +208,78 @@ type ModalAnswer = {
   choice_label: string | null;
   notes: string | null;
   photos: string[];
+  signature: SignatureCapture | null;
+  location: GeoPoint | null;
   required: boolean;
   answered_by_user_id: string | null;
   answered_by_name: string | null;
 };
 
+// Instances of a repeatable section, in the order they were added
+function instancesFor(
+  sectionId: string,
+  entries: {
+    section_id: string;
+    instance_id?: string | null;
+    instance_label?: string | null;
+  }[]
+): SectionInstance[] {
+  const list: SectionInstance[] = [];
+  for (const e of entries) {
+    if (e.section_id !== sectionId || !e.instance_id) continue;
+    if (list.some((x) => x.id === e.instance_id)) continue;
+    list.push({ id: e.instance_id, label: e.instance_label || "" });
+  }
+  return list;
+}
+
+function instanceBaseLabel(
+  section: TemplateSection,
+  lang: string = BASE_LANGUAGE
+) {
+  return (
+    sectionInstanceLabel(section, lang) || sectionTitle(section, lang) || "Item"
+  );
+}
+
+// Answer text in the chosen language; stored keys stay canonical
+function answerLabel(q: TemplateQuestion, it: InspectionItem, lang: string) {
+  if (!it.choice_key) return it.choice_label || "";
+  if (q.type === "yes_no_na" || q.type === "good_fair_poor") {
+    return choiceLabel(it.choice_key, lang);
+  }
+  if (q.type === "multiple_choice") return optionLabel(q, it.choice_key, lang);
+  return it.choice_label || "";
+}
+
+// Modal answer for a question, pre-filled from a saved item if any
+function buildAnswer(
+  section: TemplateSection,
+  q: TemplateQuestion,
+  instance: SectionInstance | null,
+  existing: InspectionItem | undefined
+): ModalAnswer {
+  return {
+    section_id: section.id,
+    section_title: section.title,
+    instance_id: instance ? instance.id : null,
+    instance_label: instance ? instance.label : null,
+    question_id: q.id,
+    question_label: q.label,
+    type: q.type,
+    value: existing ? existing.value : null,
+    choice_key: existing ? existing.choice_key : null,
+    choice_label: existing ? existing.choice_label : null,
+    notes: existing ? existing.notes : null,
+    photos: existing ? existing.photos || [] : [],
+    signature: existing ? existing.signature || null : null,
+    location: existing ? existing.location || null : null,
+    required: q.required,
+    answered_by_user_id: existing ? existing.answered_by_user_id || null : null,
+    answered_by_name: existing ? existing.answered_by_name || null : null,
+  };
+}
+
 function formatDateTime(iso: string | null) {
   if (!iso) return "—";
   const d = new Date(iso);
@@ -90,6 +287,583 @@ function formatDateTime(iso: string | null) {
   return d.toLocaleString();
 }
 
+function hasRange(q: TemplateQuestion) {
+  return typeof q.min === "number" || typeof q.max === "number";
+}
+
+// null when there is nothing to judge (no range configured or no reading)
+function isOutOfRange(q: TemplateQuestion, value: string | null) {
+  if (q.type !== "number" || !hasRange(q)) return null;
+  if (value === null || value.trim() === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n)) return null;
+  if (typeof q.min === "number" && n < q.min) return true;
+  if (typeof q.max === "number" && n > q.max) return true;
+  return false;
+}
+
+function formatRange(q: TemplateQuestion) {
+  const unit = q.unit ? ` ${q.unit}` : "";
+  const hasMin = typeof q.min === "number";
+  const hasMax = typeof q.max === "number";
+  if (hasMin && hasMax) return `${q.min}–${q.max}${unit}`;
+  if (hasMin) return `≥ ${q.min}${unit}`;
+  if (hasMax) return `≤ ${q.max}${unit}`;
+  return "";
+}
+
+function weightOf(x: { weight?: number }) {
+  return typeof x.weight === "number" && x.weight >= 0 ? x.weight : 1;
+}
+
+// Share of a question's weight earned (0..1), or null when not scored
+function questionFraction(
+  q: TemplateQuestion,
+  it: InspectionItem | undefined
+): number | null {
+  const key = it?.choice_key || null;
+  switch (q.type) {
+    case "yes_no_na":
+      if (key === "na") return null; // excluded from the denominator
+      return key === "yes" ? 1 : 0;
+    case "good_fair_poor":
+      if (key === "good") return 1;
+      if (key === "fair") return 0.5;
+      return 0;
+    case "multiple_choice": {
+      const scores = q.optionScores || {};
+      const values = (q.options || [])
+        .map((o) => scores[o])
+        .filter((v): v is number => typeof v === "number");
+      const best = values.length ? Math.max(...values) : 0;
+      if (best <= 0) return null; // no scores configured
+      const got = key !== null ? scores[key] : undefined;
+      return typeof got === "number" ? Math.max(0, got) / best : 0;
+    }
+    case "number": {
+      // readings outside the acceptable range count as a fail
+      const out = isOutOfRange(q, it?.value ?? null);
+      return out === null ? null : out ? 0 : 1;
+    }
+    case "response_set":
+      return responseFraction(q.response_set?.options || [], key);
+    default:
+      return null;
+  }
+}
+
+function isAnswered(it: InspectionItem | undefined) {
+  if (!it) return false;
+  return !!it.choice_key || (!!it.value && it.value.trim() !== "");
+}
+
+// Critical question answered negatively (No / Poor / zero-score / out of range)
+function isCriticalFailure(
+  q: TemplateQuestion,
+  it: InspectionItem | undefined
+) {
+  if (!q.critical || !it || it.hidden || !isAnswered(it)) return false;
+  return questionFraction(q, it) === 0;
+}
+
+/**
+ * Weighted score: each section is scored on its own questions, then the
+ * overall % is the section-weighted average of the section percentages.
+ */
+function computeScoreBreakdown(
+  definition: TemplateDefinition,
+  items: InspectionItem[]
+): ScoreBreakdown {
+  const byKey = new Map<string, InspectionItem>();
+  for (const it of items) {
+    byKey.set(questionKey(it.section_id, it.question_id, it.instance_id), it);
+  }
+
+  const sections: SectionScore[] = [];
+  const critical_failures: CriticalFailure[] = [];
+  for (const section of definition.sections || []) {
+    if (section.is_title) continue;
+
+    // each instance of a repeatable section is scored on its own
+    const instances: (SectionInstance | null)[] = section.repeatable
+      ? instancesFor(section.id, items)
+      : [null];
+
+    for (const instance of instances) {
+      const instanceId = instance ? instance.id : null;
+      const title = instance
+        ? `${section.title} – ${instance.label || instanceBaseLabel(section)}`
+        : section.title;
+      let earned = 0;
+      let max = 0;
+      for (const q of section.questions || []) {
+        const it = byKey.get(questionKey(section.id, q.id, instanceId));
+        if (it?.hidden) continue;
+        if (isCriticalFailure(q, it)) {
+          critical_failures.push({
+            section_title: title,
+            question_label: q.label,
+            answer: it!.choice_label || it!.value || "",
+          });
+        }
+        const fraction = questionFraction(q, it);
+        if (fraction === null) continue;
+        const w = weightOf(q);
+        earned += fraction * w;
+        max += w;
+      }
+      if (max <= 0) continue;
+      sections.push({
+        section_id: instance ? `${section.id}#${instance.id}` : section.id,
+        title,
+        earned,
+        max,
+        percent: Math.round((earned / max) * 100),
+        weight: weightOf(section),
+      });
+    }
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const sc of sections) {
+    weighted += (sc.earned / sc.max) * sc.weight;
+    totalWeight += sc.weight;
+  }
+  const score =
+    totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : null;
+
+  const threshold = definition.scoring?.pass_threshold;
+  const pass_threshold = typeof threshold === "number" ? threshold : null;
+
+  let passed: boolean | null =
+    pass_threshold !== null && score !== null ? score >= pass_threshold : null;
+  if (critical_failures.length) passed = false; // regardless of percentage
+
+  return {
+    score,
+    sections,
+    pass_threshold,
+    passed,
+    critical_failures,
+  };
+}
+
+// Overall result + per-section lines under the PDF header
+function addScoreBreakdownToPdf(doc: jsPDF, b: ScoreBreakdown, y: number) {
+  if (b.score === null && b.passed === null) return y;
+  if (b.score !== null) {
+    doc.text(`Score: ${b.score}%`, 15, y);
+    y += 5;
+  }
+  if (b.passed !== null) {
+    const reason = b.critical_failures.length
+      ? "critical failure"
+      : `pass mark ${b.pass_threshold}%`;
+    doc.setFont(undefined, "bold");
+    if (!b.passed) doc.setTextColor(190, 18, 60);
+    doc.text(`Result: ${b.passed ? "PASS" : "FAIL"} (${reason})`, 15, y);
+    doc.setTextColor(0, 0, 0);
+    doc.setFont(undefined, "normal");
+    y += 5;
+  }
+  if (b.sections.length > 1) {
+    for (const sc of b.sections) {
+      const w = sc.weight !== 1 ? ` (weight ${sc.weight})` : "";
+      doc.text(`  ${sc.title || "Section"}: ${sc.percent}%${w}`, 15, y);
+      y += 4;
+    }
+  }
+  return y + 2;
+}
+
+// Red box listing critical failures at the top of the report
+function addCriticalFailuresToPdf(
+  doc: jsPDF,
+  failures: CriticalFailure[],
+  y: number
+) {
+  if (!failures.length) return y;
+  doc.setTextColor(190, 18, 60);
+  doc.setFontSize(11);
+  doc.setFont(undefined, "bold");
+  doc.text(`CRITICAL FAILURES (${failures.length})`, 15, y);
+  y += 5;
+  doc.setFontSize(10);
+  doc.setFont(undefined, "normal");
+  for (const f of failures) {
+    const line = `• ${f.section_title ? `${f.section_title} › ` : ""}${
+      f.question_label
+    }${f.answer ? ` – ${f.answer}` : ""}`;
+    for (const part of doc.splitTextToSize(line, 175)) {
+      doc.text(part, 17, y);
+      y += 4;
+    }
+  }
+  doc.setTextColor(0, 0, 0);
+  return y + 3;
+}
+
+// Draws a captured signature + signer line; returns the new y position
+function addSignatureToPdf(
+  doc: jsPDF,
+  sig: SignatureCapture | null | undefined,
+  y: number,
+  pageHeight: number
+) {
+  if (!sig || !sig.data_url) {
+    doc.text("Signature: not signed", 20, y);
+    return y + 4;
+  }
+  if (y > pageHeight - 35) {
+    doc.addPage();
+    y = 15;
+  }
+  try {
+    doc.addImage(sig.data_url, "PNG", 20, y, 60, 19);
+    y += 21;
+  } catch (e) {
+    console.warn("Failed to add signature to PDF", e);
+  }
+  doc.text(
+    `Signed by ${sig.signer_name || "—"} on ${formatDateTime(sig.signed_at)}`,
+    20,
+    y
+  );
+  return y + 4;
+}
+
+// Start / submit coordinates under the PDF header
+function addGeoStampsToPdf(
+  doc: jsPDF,
+  insp: InspectionRow,
+  y: number,
+  lang: string
+) {
+  if (insp.start_location) {
+    doc.text(
+      pdfSafeText(
+        `${pdfLabel("start_location", lang)}: ${formatGeoPoint(
+          insp.start_location
+        )}`
+      ),
+      15,
+      y
+    );
+    y += 5;
+  }
+  if (insp.submit_location) {
+    doc.text(
+      pdfSafeText(
+        `${pdfLabel("submit_location", lang)}: ${formatGeoPoint(
+          insp.submit_location
+        )}`
+      ),
+      15,
+      y
+    );
+    y += 5;
+  }
+  return y;
+}
+
+// Site / version / dates / inspector lines of the PDF header
+function addHeaderDetailsToPdf(
+  doc: jsPDF,
+  insp: InspectionRow,
+  y: number,
+  lang: string
+) {
+  const lines = [
+    `${pdfLabel("site", lang)}: ${insp.site || "—"}`,
+    insp.template_version !== null
+      ? `${pdfLabel("template_version", lang)}: v${insp.template_version}`
+      : "",
+    `${pdfLabel("started", lang)}: ${formatDateTime(insp.started_at)}`,
+    insp.submitted_at
+      ? `${pdfLabel("submitted", lang)}: ${formatDateTime(insp.submitted_at)}`
+      : "",
+    insp.owner_name ? `${pdfLabel("inspector", lang)}: ${insp.owner_name}` : "",
+  ];
+  for (const line of lines) {
+    if (!line) continue;
+    doc.text(pdfSafeText(line), 15, y);
+    y += 5;
+  }
+  return addGeoStampsToPdf(doc, insp, y, lang);
+}
+
+// Sections + answers for the PDF body (shared by single & bulk export)
+function addInspectionBodyToPdf(
+  doc: jsPDF,
+  definition: TemplateDefinition,
+  items: InspectionItem[],
+  hidden: HiddenState,
+  y: number,
+  lang: string
+) {
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  const addTextWrapped = (text: string, x: number, yPos: number) => {
+    const maxWidth = 180; // mm
+    const lines = doc.splitTextToSize(pdfSafeText(text), maxWidth);
+    for (const line of lines) {
+      if (yPos > pageHeight - 15) {
+        doc.addPage();
+        yPos = 15;
+      }
+      doc.text(line, x, yPos);
+      yPos += 4;
+    }
+    return yPos;
+  };
+
+  const itemsByKey = new Map<string, InspectionItem>();
+  for (const it of items) {
+    itemsByKey.set(
+      questionKey(it.section_id, it.question_id, it.instance_id),
+      it
+    );
+  }
+
+  for (const section of definition.sections || []) {
+    if (hidden.sections.has(section.id)) continue;
+
+    // TITLE BLOCKS: render as bold heading in PDF
+    if (section.is_title) {
+      if (y > pageHeight - 20) {
+        doc.addPage();
+        y = 15;
+      }
+      doc.setFontSize(12);
+      doc.setFont(undefined, "bold");
+      y = addTextWrapped(sectionTitle(section, lang) || "Title", 15, y);
+      y += 3;
+      continue;
+    }
+
+    if (y > pageHeight - 20) {
+      doc.addPage();
+      y = 15;
+    }
+    doc.setFontSize(11);
+    doc.setFont(undefined, "bold");
+    y = addTextWrapped(
+      sectionTitle(section, lang) || "Untitled section",
+      15,
+      y
+    );
+    doc.setFont(undefined, "normal");
+    y += 1;
+
+    const instances: (SectionInstance | null)[] = section.repeatable
+      ? instancesFor(section.id, items)
+      : [null];
+
+    for (const instance of instances) {
+      const instanceId = instance ? instance.id : null;
+
+      if (instance) {
+        if (y > pageHeight - 20) {
+          doc.addPage();
+          y = 15;
+        }
+        doc.setFontSize(10);
+        doc.setFont(undefined, "bold");
+        y = addTextWrapped(
+          instance.label || instanceBaseLabel(section, lang),
+          17,
+          y
+        );
+        doc.setFont(undefined, "normal");
+        y += 1;
+      }
+
+      for (const q of section.questions || []) {
+        if (hidden.questions.has(questionKey(section.id, q.id, instanceId))) {
+          continue;
+        }
+
+        const it =
+          itemsByKey.get(questionKey(section.id, q.id, instanceId)) ||
+          ({
+            value: null,
+            choice_label: null,
+            notes: null,
+            photos: [],
+            answered_by_name: null,
+          } as InspectionItem);
+
+        if (y > pageHeight - 20) {
+          doc.addPage();
+          y = 15;
+        }
+
+        doc.setFontSize(10);
+        y = addTextWrapped(`• ${questionLabel(q, lang)}`, 17, y);
+
+        let ansLabel = "";
+        if (q.type === "text" || q.type === "scan") {
+          ansLabel = it.value || "";
+        } else if (q.type === "location") {
+          ansLabel = it.location ? formatGeoPoint(it.location) : "";
+        } else if (q.type === "number") {
+          ansLabel = it.value ? `${it.value}${q.unit ? ` ${q.unit}` : ""}` : "";
+        } else {
+          ansLabel = answerLabel(q, it, lang);
+        }
+        if (ansLabel) {
+          const option =
+            q.type === "response_set"
+              ? q.response_set?.options.find((o) => o.key === it.choice_key)
+              : undefined;
+          if (option) doc.setTextColor(...colorStyle(option.color).rgb);
+          y = addTextWrapped(`${pdfLabel("answer", lang)}: ${ansLabel}`, 20, y);
+          doc.setTextColor(0, 0, 0);
+        }
+
+        if (
+          q.type === "scan" &&
+          matchesExpectedPattern(it.value, q.expected_pattern) === false
+        ) {
+          doc.setTextColor(190, 18, 60);
+          y = addTextWrapped("Code does not match the expected pattern", 20, y);
+          doc.setTextColor(0, 0, 0);
+        }
+
+        if (isOutOfRange(q, it.value)) {
+          doc.setTextColor(190, 18, 60);
+          doc.setFont(undefined, "bold");
+          y = addTextWrapped(
+            `OUT OF RANGE – acceptable ${formatRange(q)}`,
+            20,
+            y
+          );
+          doc.setFont(undefined, "normal");
+          doc.setTextColor(0, 0, 0);
+        }
+
+        if (q.type === "signature") {
+          y = addSignatureToPdf(doc, it.signature, y, pageHeight);
+        }
+
+        if (it.notes) {
+          y = addTextWrapped(`${pdfLabel("notes", lang)}: ${it.notes}`, 20, y);
+        }
+        if (it.photos && it.photos.length > 0) {
+          y = addTextWrapped(
+            `${pdfLabel("photos", lang)}: ${it.photos.length}`,
+            20,
+            y
+          );
+        }
+        if (it.answered_by_name) {
+          y = addTextWrapped(
+            `${pdfLabel("answered_by", lang)}: ${it.answered_by_name}`,
+            20,
+            y
+          );
+        }
+        y += 3;
+      }
+
+      if (instance) y += 1;
+    }
+
+    y += 2;
+  }
+
+  return y;
+}
+
+// Optional appendix: guidance text + reference images per question
+function addGuidanceAppendixToPdf(
+  doc: jsPDF,
+  definition: TemplateDefinition,
+  hidden: HiddenState,
+  lang: string
+) {
+  if (!definition.pdf?.guidance_appendix) return;
+
+  const entries: { title: string; q: TemplateQuestion }[] = [];
+  for (const section of definition.sections || []) {
+    if (section.is_title || hidden.sections.has(section.id)) continue;
+    for (const q of section.questions || []) {
+      if (!q.guidance && !q.reference_images?.length) continue;
+      // repeatable sections have per-instance keys, so only check plain ones
+      if (
+        !section.repeatable &&
+        hidden.questions.has(questionKey(section.id, q.id))
+      ) {
+        continue;
+      }
+      entries.push({ title: sectionTitle(section, lang) || "Section", q });
+    }
+  }
+  if (!entries.length) return;
+
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.addPage();
+  let y = 15;
+  doc.setFontSize(12);
+  doc.setFont(undefined, "bold");
+  doc.text("Appendix – Question guidance", 15, y);
+  y += 8;
+
+  const ensureSpace = (needed: number) => {
+    if (y > pageHeight - needed) {
+      doc.addPage();
+      y = 15;
+    }
+  };
+
+  for (const { title, q } of entries) {
+    ensureSpace(20);
+    doc.setFontSize(10);
+    doc.setFont(undefined, "bold");
+    for (const line of doc.splitTextToSize(
+      pdfSafeText(`${title} › ${questionLabel(q, lang)}`),
+      180
+    )) {
+      doc.text(line, 15, y);
+      y += 4;
+    }
+    doc.setFont(undefined, "normal");
+    doc.setFontSize(9);
+    for (const para of markdownToPlainLines(questionGuidance(q, lang))) {
+      for (const line of doc.splitTextToSize(pdfSafeText(para), 175)) {
+        ensureSpace(15);
+        doc.text(line, 18, y);
+        y += 4;
+      }
+    }
+
+    // Reference images, three per row, aspect ratio kept
+    let x = 18;
+    let rowHeight = 0;
+    for (const img of q.reference_images || []) {
+      try {
+        const props = doc.getImageProperties(img);
+        const w = Math.min(55, (props.width / props.height) * 40);
+        const h = (props.height / props.width) * w;
+        if (x + w > 195) {
+          x = 18;
+          y += rowHeight + 3;
+          rowHeight = 0;
+        }
+        ensureSpace(h + 10);
+        doc.addImage(img, props.fileType || "PNG", x, y + 1, w, h);
+        x += w + 4;
+        rowHeight = Math.max(rowHeight, h);
+      } catch (e) {
+        console.warn("Failed to add reference image to PDF", e);
+      }
+    }
+    if (rowHeight) y += rowHeight + 3;
+    y += 4;
+  }
+}
+
 export default function InspectionsPage() {
   const [role, setRole] = useState<Role>(null);
   const [roleLoading, setRoleLoading] = useState(true);
@@ -99,6 +873,9 @@ export default function InspectionsPage() {
 
   const [sites, setSites] = useState<SiteRow[]>([]);
   const [inspections, setInspections] = useState<InspectionRow[]>([]);
+  const [templateSites, setTemplateSites] = useState<Map<string, string[]>>(
+    new Map()
+  );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -107,6 +884,7 @@ export default function InspectionsPage() {
 
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [bulkBusy, setBulkBusy] = useState(false);
+  const [pdfLanguage, setPdfLanguage] = useState<string>(BASE_LANGUAGE);
 
   // Modal state
   const [modalOpen, setModalOpen] = useState(false);
@@ -118,6 +896,21 @@ export default function InspectionsPage() {
   const [answers, setAnswers] = useState<ModalAnswer[]>([]);
   const [modalLoading, setModalLoading] = useState(false);
   const [modalSaving, setModalSaving] = useState(false);
+  const [guidanceOpen, setGuidanceOpen] = useState<string[]>([]); // card keys
+  const [language, setLanguage] = useState<string>(BASE_LANGUAGE); // display only
+  const [scanningKey, setScanningKey] = useState<string | null>(null);
+  const [locatingKey, setLocatingKey] = useState<string | null>(null);
+  // Position taken when an unstamped inspection is opened
+  const [startFix, setStartFix] = useState<{
+    inspection_id: string;
+    point: GeoPoint;
+  } | null>(null);
+
+  // Sections / questions hidden by conditional logic for the current answers
+  const hidden = useMemo(
+    () => computeHidden(activeDefinition?.sections || [], answers),
+    [activeDefinition, answers]
+  );
 
   // --------------------------
   // Load user + role + display name + site access (from user_sites)
@@ -217,7 +1010,7 @@ export default function InspectionsPage() {
       const { data, error } = await supabase
         .from("inspections")
         .select(
-          "id, template_id, template_name, site_id, site, status, started_at, submitted_at, score, items, owner_user_id, owner_name"
+          "id, template_id, template_name, template_version, site_id, site, status, started_at, submitted_at, score, passed, critical_failed, items, owner_user_id, owner_name, schedule_id, due_at, start_location, submit_location"
         )
         .order("started_at", { ascending: false });
 
@@ -227,18 +1020,38 @@ export default function InspectionsPage() {
         id: i.id,
         template_id: i.template_id,
         template_name: i.template_name,
+        template_version:
+          i.template_version === null || i.template_version === undefined
+            ? null
+            : Number(i.template_version),
         site_id: i.site_id || null,
         site: i.site || null,
         status: (i.status as Status) || "in_progress",
-        started_at: i.started_at,
+        started_at: i.started_at || null,
         submitted_at: i.submitted_at || null,
         score: i.score === null ? null : Number(i.score),
+        passed: typeof i.passed === "boolean" ? i.passed : null,
+        critical_failed: !!i.critical_failed,
         items: (i.items as InspectionItem[]) || null,
         owner_user_id: i.owner_user_id || null,
         owner_name: i.owner_name || null,
+        schedule_id: i.schedule_id || null,
+        due_at: i.due_at || null,
+        start_location: i.start_location || null,
+        submit_location: i.submit_location || null,
       }));
 
       setInspections(mapped);
+
+      try {
+        setTemplateSites(
+          await loadTemplateSiteMap(
+            Array.from(new Set(mapped.map((i) => i.template_id)))
+          )
+        );
+      } catch (siteErr) {
+        console.error("loadTemplateSiteMap error", siteErr);
+      }
     } catch (e: any) {
       console.error("loadInspections error", e);
       setError(
@@ -251,8 +1064,17 @@ export default function InspectionsPage() {
   };
 
   useEffect(() => {
-    loadSites();
-    loadInspections();
+    const init = async () => {
+      loadSites();
+      try {
+        // top up inspections from recurring schedules before listing
+        await generateDueInspections();
+      } catch (e) {
+        console.error("generateDueInspections error", e);
+      }
+      loadInspections();
+    };
+    init();
   }, []);
 
   // --------------------------
@@ -284,8 +1106,13 @@ export default function InspectionsPage() {
     if (!isAdmin) {
       const allowed = siteAccess || [];
       list = list.filter((insp) => {
-        // global inspections (no site) visible to everyone
-        if (!insp.site_id) return true;
+        // inspections without a site follow their template's sites
+        if (!insp.site_id) {
+          return canAccessTemplateSites(
+            templateSites.get(insp.template_id) || [],
+            allowed
+          );
+        }
         return allowed.includes(insp.site_id);
       });
     }
@@ -301,10 +1128,26 @@ export default function InspectionsPage() {
     }
 
     return list;
-  }, [inspections, isAdmin, siteAccess, selectedSiteId, statusFilter]);
-
+  }, [
+    inspections,
+    templateSites,
+    isAdmin,
+    siteAccess,
+    selectedSiteId,
+    statusFilter,
+  ]);
+
+  const overdue = filteredInspections
+    .filter((i) => dueStateOf(i) === "overdue")
+    .sort((a, b) => (a.due_at || "").localeCompare(b.due_at || ""));
+  const dueToday = filteredInspections
+    .filter((i) => dueStateOf(i) === "due_today")
+    .sort((a, b) => (a.due_at || "").localeCompare(b.due_at || ""));
   const inProgress = filteredInspections.filter(
-    (i) => i.status === "in_progress"
+    (i) =>
+      i.status === "in_progress" &&
+      dueStateOf(i) !== "overdue" &&
+      dueStateOf(i) !== "due_today"
   );
   const submitted = filteredInspections.filter(
     (i) => i.status === "submitted"
@@ -343,22 +1186,54 @@ export default function InspectionsPage() {
     setActiveDefinition(null);
     setTemplateLogo(null);
     setAnswers([]);
+    setGuidanceOpen([]);
+    setScanningKey(null);
+    setLanguage(BASE_LANGUAGE);
+    setLocatingKey(null);
+    setStartFix(null);
+
+    // Scheduled inspections start when they are first opened
+    if (insp.status === "in_progress" && !insp.started_at) {
+      const startedAt = new Date().toISOString();
+      supabase
+        .from("inspections")
+        .update({ started_at: startedAt })
+        .eq("id", insp.id)
+        .is("started_at", null)
+        .then(({ error }) => {
+          if (error) {
+            console.error("set started_at error", error);
+            return;
+          }
+          setActiveInspection((prev) =>
+            prev && prev.id === insp.id ? { ...prev, started_at: startedAt } : prev
+          );
+          setInspections((prev) =>
+            prev.map((i) =>
+              i.id === insp.id ? { ...i, started_at: startedAt } : i
+            )
+          );
+        });
+    }
+
+    // Ask for the position early so the first save can stamp it
+    if (insp.status === "in_progress" && !insp.start_location) {
+      tryGetCurrentLocation().then((point) => {
+        if (point) setStartFix({ inspection_id: insp.id, point });
+      });
+    }
     setModalLoading(true);
     setModalSaving(false);
 
     try {
-      // Load template definition + logo
-      const { data, error } = await supabase
-        .from("templates")
-        .select("definition, logo_data_url")
-        .eq("id", insp.template_id)
-        .single();
-
-      if (error) throw error;
-
-      const definition: TemplateDefinition =
-        (data?.definition as TemplateDefinition) || { sections: [] };
-      const logo = (data as any)?.logo_data_url as string | null | undefined;
+      // Load the template version this inspection was started from + logo
+      const { definition: def, logo } = await loadInspectionTemplate(
+        insp.template_id,
+        insp.template_version
+      );
+      const definition: TemplateDefinition = (def as TemplateDefinition) || {
+        sections: [],
+      };
 
       setActiveDefinition(definition);
       setTemplateLogo(logo || null);
@@ -368,30 +1243,37 @@ export default function InspectionsPage() {
 
       const built: ModalAnswer[] = [];
       for (const section of definition.sections || []) {
-        for (const q of section.questions || []) {
-          const existing = existingItems.find(
-            (it) =>
-              it.section_id === section.id && it.question_id === q.id
-          );
-          built.push({
-            section_id: section.id,
-            section_title: section.title,
-            question_id: q.id,
-            question_label: q.label,
-            type: q.type,
-            value: existing ? existing.value : null,
-            choice_key: existing ? existing.choice_key : null,
-            choice_label: existing ? existing.choice_label : null,
-            notes: existing ? existing.notes : null,
-            photos: existing ? existing.photos || [] : [],
-            required: q.required,
-            answered_by_user_id: existing
-              ? existing.answered_by_user_id || null
-              : null,
-            answered_by_name: existing
-              ? existing.answered_by_name || null
-              : null,
-          });
+        // Repeatable sections get one entry per instance (at least one)
+        let instances: (SectionInstance | null)[] = [null];
+        if (section.repeatable) {
+          instances = instancesFor(section.id, existingItems);
+          if (!instances.length) {
+            instances = [
+              {
+                id: randomId("inst"),
+                label: `${instanceBaseLabel(section)} #1`,
+              },
+            ];
+          }
+        }
+
+        for (const instance of instances) {
+          for (const q of section.questions || []) {
+            const existing =
+              existingItems.find(
+                (it) =>
+                  it.section_id === section.id &&
+                  it.question_id === q.id &&
+                  (it.instance_id || null) === (instance ? instance.id : null)
+              ) ||
+              // question was moved to another section in the editor
+              (instance
+                ? undefined
+                : existingItems.find(
+                    (it) => it.question_id === q.id && !it.instance_id
+                  ));
+            built.push(buildAnswer(section, q, instance, existing));
+          }
         }
       }
 
@@ -437,6 +1319,114 @@ export default function InspectionsPage() {
     );
   };
 
+  // Location question: one GPS fix, written back by question key
+  const captureLocation = async (a: ModalAnswer, key: string) => {
+    setLocatingKey(key);
+    try {
+      const point = await getCurrentLocation();
+      setAnswers((prev) =>
+        prev.map((x) =>
+          x.section_id === a.section_id &&
+          x.question_id === a.question_id &&
+          x.instance_id === a.instance_id
+            ? {
+                ...x,
+                location: point,
+                value: formatGeoPoint(point),
+                answered_by_user_id: currentUserId || x.answered_by_user_id,
+                answered_by_name: currentUserName || x.answered_by_name,
+              }
+            : x
+        )
+      );
+    } catch (e: any) {
+      console.error("captureLocation error", e);
+      alert(e?.message || "Could not get your location.");
+    } finally {
+      setLocatingKey(null);
+    }
+  };
+
+  // Signature pad + signer name (timestamp is taken when the pad changes)
+  const updateSignature = (
+    index: number,
+    patch: Partial<SignatureCapture>
+  ) => {
+    setAnswers((prev) =>
+      prev.map((a, i) => {
+        if (i !== index) return a;
+        const sig: SignatureCapture = {
+          data_url: null,
+          signer_name: currentUserName || "",
+          signed_at: null,
+          ...(a.signature || {}),
+          ...patch,
+        };
+        if (patch.data_url !== undefined) {
+          sig.signed_at = patch.data_url ? new Date().toISOString() : null;
+        }
+        return {
+          ...a,
+          signature: sig,
+          value: sig.data_url ? sig.signer_name || "Signed" : null,
+          answered_by_user_id: currentUserId || a.answered_by_user_id,
+          answered_by_name: currentUserName || a.answered_by_name,
+        };
+      })
+    );
+  };
+
+  // --------------------------
+  // Repeatable section instances
+  // --------------------------
+  const addInstance = (section: TemplateSection) => {
+    const count = instancesFor(section.id, answers).length;
+    const instance: SectionInstance = {
+      id: randomId("inst"),
+      label: `${instanceBaseLabel(section)} #${count + 1}`,
+    };
+    setAnswers((prev) => {
+      // keep the new instance's answers next to the section's others
+      let insertAt = prev.length;
+      prev.forEach((a, i) => {
+        if (a.section_id === section.id) insertAt = i + 1;
+      });
+      const added = (section.questions || []).map((q) =>
+        buildAnswer(section, q, instance, undefined)
+      );
+      return [...prev.slice(0, insertAt), ...added, ...prev.slice(insertAt)];
+    });
+  };
+
+  const removeInstance = (sectionId: string, instance: SectionInstance) => {
+    if (
+      !window.confirm(
+        `Remove "${instance.label || "this instance"}" and its answers?`
+      )
+    ) {
+      return;
+    }
+    setAnswers((prev) =>
+      prev.filter(
+        (a) => !(a.section_id === sectionId && a.instance_id === instance.id)
+      )
+    );
+  };
+
+  const renameInstance = (
+    sectionId: string,
+    instanceId: string,
+    label: string
+  ) => {
+    setAnswers((prev) =>
+      prev.map((a) =>
+        a.section_id === sectionId && a.instance_id === instanceId
+          ? { ...a, instance_label: label }
+          : a
+      )
+    );
+  };
+
   const handlePhotoChange = (index: number, file: File | null) => {
     if (!file) return;
     const reader = new FileReader();
@@ -461,51 +1451,51 @@ export default function InspectionsPage() {
   // --------------------------
   // Score computation
   // --------------------------
-  const computeScore = (items: InspectionItem[]): number | null => {
-    const scored = items.filter(
-      (it) => it.type === "yes_no_na" || it.type === "good_fair_poor"
-    );
-    if (!scored.length) return null;
-
-    let total = 0;
-    let max = 0;
-
-    for (const it of scored) {
-      if (it.type === "yes_no_na") {
-        max += 1;
-        if (it.choice_key === "yes") total += 1;
-        if (it.choice_key === "na") {
-          max -= 1; // exclude N/A from denominator
-        }
-      } else if (it.type === "good_fair_poor") {
-        max += 2;
-        if (it.choice_key === "good") total += 2;
-        if (it.choice_key === "fair") total += 1;
-      }
-    }
-
-    if (max <= 0) return null;
-    return Math.round((total / max) * 100);
-  };
+  const findQuestion = (sectionId: string, questionId: string) =>
+    activeDefinition?.sections
+      .find((s) => s.id === sectionId)
+      ?.questions.find((q) => q.id === questionId);
 
   const buildItemsFromAnswers = (): InspectionItem[] => {
-    return answers.map((a) => ({
-      section_id: a.section_id,
-      section_title: a.section_title,
-      question_id: a.question_id,
-      question_label: a.question_label,
-      type: a.type,
-      value: a.value,
-      choice_key: a.choice_key,
-      choice_label: a.choice_label,
-      notes: a.notes,
-      photos: a.photos,
-      required: a.required,
-      answered_by_user_id: a.answered_by_user_id,
-      answered_by_name: a.answered_by_name,
-    }));
+    return answers.map((a) => {
+      const q = findQuestion(a.section_id, a.question_id);
+      const item: InspectionItem = {
+        section_id: a.section_id,
+        section_title: a.section_title,
+        instance_id: a.instance_id,
+        instance_label: a.instance_label,
+        question_id: a.question_id,
+        question_label: a.question_label,
+        type: a.type,
+        value: a.value,
+        choice_key: a.choice_key,
+        choice_label: a.choice_label,
+        notes: a.notes,
+        photos: a.photos,
+        signature: a.signature,
+        location: a.location,
+        out_of_range: q ? isOutOfRange(q, a.value) : null,
+        required: a.required,
+        hidden: hidden.questions.has(
+          questionKey(a.section_id, a.question_id, a.instance_id)
+        ),
+        answered_by_user_id: a.answered_by_user_id,
+        answered_by_name: a.answered_by_name,
+      };
+      item.critical_failure = q ? isCriticalFailure(q, item) : false;
+      return item;
+    });
   };
 
+  // Live score for the answers in the modal
+  const liveBreakdown = useMemo(
+    () =>
+      activeDefinition
+        ? computeScoreBreakdown(activeDefinition, buildItemsFromAnswers())
+        : null,
+    [activeDefinition, answers, hidden]
+  );
+
   // --------------------------
   // Save (in_progress) or submitted (Completed)
   // --------------------------
@@ -517,10 +1507,15 @@ export default function InspectionsPage() {
 
       if (markComplete) {
         const missingRequired = items.some((it) => {
-          if (!it.required) return false;
-          if (it.type === "text") {
+          if (!it.required || it.hidden) return false;
+          if (it.type === "text" || it.type === "scan") {
             return !it.value || it.value.trim() === "";
           }
+          if (it.type === "number") {
+            return !it.value || !Number.isFinite(Number(it.value));
+          }
+          if (it.type === "signature") return false; // checked below
+          if (it.type === "location") return !it.location;
           return !it.choice_key;
         });
         if (missingRequired) {
@@ -528,26 +1523,76 @@ export default function InspectionsPage() {
           setModalSaving(false);
           return;
         }
+
+        const missingSignature = items.find(
+          (it) =>
+            it.type === "signature" &&
+            it.required &&
+            !it.hidden &&
+            (!it.signature?.data_url || !it.signature.signer_name.trim())
+        );
+        if (missingSignature) {
+          const where = missingSignature.instance_label
+            ? ` (${missingSignature.instance_label})`
+            : "";
+          alert(
+            `"${missingSignature.question_label}"${where} needs a signature and the signer's name before completing.`
+          );
+          setModalSaving(false);
+          return;
+        }
       }
 
-      const score = computeScore(items);
+      const breakdown = activeDefinition
+        ? computeScoreBreakdown(activeDefinition, items)
+        : null;
       const nowIso = new Date().toISOString();
       const newStatus: Status = markComplete ? "submitted" : "in_progress";
 
+      // Geo-stamps let managers check the inspection was done on site.
+      // Only a fix we already have is written here; a missing start fix
+      // and the submit fix are added in the background after the save.
+      const startLocation =
+        activeInspection.start_location ||
+        (startFix?.inspection_id === activeInspection.id
+          ? startFix.point
+          : null);
+      const submitLocation = activeInspection.submit_location;
+
       const { error } = await supabase
         .from("inspections")
         .update({
           items,
-          score,
+          score: breakdown?.score ?? null,
+          passed: breakdown?.passed ?? null,
+          critical_failed: !!breakdown?.critical_failures.length,
           status: newStatus,
           submitted_at: markComplete
             ? nowIso
             : activeInspection.submitted_at,
+          start_location: startLocation,
+          submit_location: submitLocation,
         })
         .eq("id", activeInspection.id);
 
       if (error) throw error;
 
+      setActiveInspection((prev) =>
+        prev && prev.id === activeInspection.id
+          ? {
+              ...prev,
+              start_location: startLocation,
+              submit_location: submitLocation,
+            }
+          : prev
+      );
+      if (!startLocation) {
+        stampLocationLater(activeInspection.id, "start_location", false);
+      }
+      if (markComplete) {
+        stampLocationLater(activeInspection.id, "submit_location", true);
+      }
+
       await loadInspections();
       if (markComplete) {
         alert("Inspection completed.");
@@ -563,6 +1608,41 @@ export default function InspectionsPage() {
     }
   };
 
+  // Writes a geo-stamp once the browser has a fix, without holding up the
+  // save. The start stamp is only filled in if still empty; the submit
+  // stamp is replaced on every completion.
+  const stampLocationLater = (
+    inspectionId: string,
+    column: "start_location" | "submit_location",
+    replace: boolean
+  ) => {
+    tryGetCurrentLocation().then(async (point) => {
+      if (!point) return;
+      let query = supabase
+        .from("inspections")
+        .update({ [column]: point })
+        .eq("id", inspectionId);
+      if (!replace) query = query.is(column, null);
+      const { error } = await query;
+      if (error) {
+        console.error("location stamp error", error);
+        return;
+      }
+      setActiveInspection((prev) =>
+        prev && prev.id === inspectionId && (replace || !prev[column])
+          ? { ...prev, [column]: point }
+          : prev
+      );
+      setInspections((prev) =>
+        prev.map((i) =>
+          i.id === inspectionId && (replace || !i[column])
+            ? { ...i, [column]: point }
+            : i
+        )
+      );
+    });
+  };
+
   // --------------------------
   // Duplicate inspection (admin + manager)
   // --------------------------
@@ -571,21 +1651,38 @@ export default function InspectionsPage() {
       alert("You must be logged in to duplicate an inspection.");
       return;
     }
+    // A copy would otherwise render against the unapproved working copy
+    if (insp.template_version === null) {
+      alert(
+        "This inspection isn't linked to an approved template version, so it can't be duplicated."
+      );
+      return;
+    }
 
     try {
       const items: InspectionItem[] = insp.items || [];
       const nowIso = new Date().toISOString();
-      const score = computeScore(items);
+      const { definition } = await loadInspectionTemplate(
+        insp.template_id,
+        insp.template_version
+      );
+      const breakdown = computeScoreBreakdown(
+        (definition as TemplateDefinition) || { sections: [] },
+        items
+      );
 
       const { error } = await supabase.from("inspections").insert({
         template_id: insp.template_id,
         template_name: insp.template_name,
+        template_version: insp.template_version,
         site_id: insp.site_id,
         site: insp.site,
         status: "in_progress",
         started_at: nowIso,
         submitted_at: null,
-        score,
+        score: breakdown.score,
+        passed: breakdown.passed,
+        critical_failed: breakdown.critical_failures.length > 0,
         items,
         owner_user_id: currentUserId,
         owner_name:
@@ -603,157 +1700,54 @@ export default function InspectionsPage() {
   };
 
   // --------------------------
-  // Single export to PDF (from modal) with logo & answered-by
-  // --------------------------
-  const exportCurrentToPdf = () => {
-    if (!activeInspection || !activeDefinition) return;
-
-    const doc = new jsPDF("p", "mm", "a4");
-    let y = 15;
-
-    // Logo
-    if (templateLogo) {
-      try {
-        doc.addImage(templateLogo, "PNG", 15, y - 5, 20, 20);
-        y += 20;
-      } catch (e) {
-        console.warn("Failed to add logo to PDF", e);
-      }
-    }
-
-    // Header text
-    doc.setFontSize(14);
-    doc.text(activeInspection.template_name, 15, y);
-    y += 7;
-
-    doc.setFontSize(10);
-    doc.text(`Site: ${activeInspection.site || "—"}`, 15, y);
-    y += 5;
-    doc.text(`Started: ${formatDateTime(activeInspection.started_at)}`, 15, y);
-    y += 5;
-    if (activeInspection.submitted_at) {
-      doc.text(
-        `Submitted: ${formatDateTime(activeInspection.submitted_at)}`,
-        15,
-        y
-      );
-      y += 5;
-    }
-    if (activeInspection.owner_name) {
-      doc.text(`Inspector: ${activeInspection.owner_name}`, 15, y);
-      y += 5;
-    }
-    if (activeInspection.score !== null) {
-      doc.text(`Score: ${activeInspection.score}%`, 15, y);
-      y += 7;
-    }
-
-    y += 2;
-    doc.setLineWidth(0.2);
-    doc.line(15, y, 195, y);
-    y += 5;
-
-    const pageHeight = doc.internal.pageSize.getHeight();
-
-    const addTextWrapped = (text: string, x: number, yPos: number) => {
-      const maxWidth = 180; // mm
-      const lines = doc.splitTextToSize(text, maxWidth);
-      for (const line of lines) {
-        if (yPos > pageHeight - 15) {
-          doc.addPage();
-          yPos = 15;
-        }
-        doc.text(line, x, yPos);
-        yPos += 4;
-      }
-      return yPos;
-    };
-
-    // Build a lookup from answers
-    const answerByKey = new Map<string, ModalAnswer>();
-    for (const a of answers) {
-      answerByKey.set(`${a.section_id}:${a.question_id}`, a);
-    }
-
-    for (const section of activeDefinition.sections || []) {
-      // TITLE BLOCKS: render as bold heading in PDF
-      if (section.is_title) {
-        if (y > pageHeight - 20) {
-          doc.addPage();
-          y = 15;
-        }
-        doc.setFontSize(12);
-        doc.setFont(undefined, "bold");
-        y = addTextWrapped(section.title || "Title", 15, y);
-        y += 3;
-        continue;
-      }
-
-      if (y > pageHeight - 20) {
-        doc.addPage();
-        y = 15;
-      }
-      doc.setFontSize(11);
-      doc.setFont(undefined, "bold");
-      y = addTextWrapped(section.title || "Untitled section", 15, y);
-      doc.setFont(undefined, "normal");
-      y += 1;
-
-      for (const q of section.questions || []) {
-        const a =
-          answerByKey.get(`${section.id}:${q.id}`) ||
-          ({
-            value: null,
-            choice_label: null,
-            notes: null,
-            photos: [],
-            answered_by_name: null,
-          } as ModalAnswer);
-
-        if (y > pageHeight - 20) {
-          doc.addPage();
-          y = 15;
-        }
-
-        doc.setFontSize(10);
-        y = addTextWrapped(`• ${q.label}`, 17, y);
+  // Single export to PDF (from modal) with logo & answered-by
+  // --------------------------
+  const exportCurrentToPdf = () => {
+    if (!activeInspection || !activeDefinition) return;
 
-        let ansLabel = "";
-        if (q.type === "text") {
-          ansLabel = a.value || "";
-        } else {
-          ansLabel = a.choice_label || "";
-        }
-        if (ansLabel) {
-          y = addTextWrapped(`Answer: ${ansLabel}`, 20, y);
-        }
+    const doc = new jsPDF("p", "mm", "a4");
+    let y = 15;
 
-        if (a.notes) {
-          y = addTextWrapped(`Notes: ${a.notes}`, 20, y);
-        }
+    // Logo
+    if (templateLogo) {
+      try {
+        doc.addImage(templateLogo, "PNG", 15, y - 5, 20, 20);
+        y += 20;
+      } catch (e) {
+        console.warn("Failed to add logo to PDF", e);
+      }
+    }
 
-        if (a.photos && a.photos.length > 0) {
-          y = addTextWrapped(
-            `Photos attached: ${a.photos.length}`,
-            20,
-            y
-          );
-        }
+    // Header text
+    doc.setFontSize(14);
+    doc.text(activeInspection.template_name, 15, y);
+    y += 7;
 
-        if (a.answered_by_name) {
-          y = addTextWrapped(
-            `Answered by: ${a.answered_by_name}`,
-            20,
-            y
-          );
-        }
+    doc.setFontSize(10);
+    y = addHeaderDetailsToPdf(doc, activeInspection, y, language);
+    if (liveBreakdown) {
+      y = addScoreBreakdownToPdf(doc, liveBreakdown, y);
+    }
 
-        y += 3;
-      }
+    y += 2;
+    doc.setLineWidth(0.2);
+    doc.line(15, y, 195, y);
+    y += 5;
 
-      y += 2;
+    if (liveBreakdown) {
+      y = addCriticalFailuresToPdf(doc, liveBreakdown.critical_failures, y);
     }
 
+    addInspectionBodyToPdf(
+      doc,
+      activeDefinition,
+      buildItemsFromAnswers(),
+      hidden,
+      y,
+      language
+    );
+    addGuidanceAppendixToPdf(doc, activeDefinition, hidden, language);
+
     doc.save(
       `inspection-${activeInspection.template_name
         .replace(/[^a-z0-9]+/gi, "-")
@@ -813,23 +1807,20 @@ export default function InspectionsPage() {
       );
 
       for (const insp of targets) {
-        const { data: tpl, error: tplErr } = await supabase
-          .from("templates")
-          .select("definition, logo_data_url")
-          .eq("id", insp.template_id)
-          .single();
-        if (tplErr) {
+        let def: TemplateDefinition;
+        let logo: string | null;
+        try {
+          const tpl = await loadInspectionTemplate(
+            insp.template_id,
+            insp.template_version
+          );
+          def = (tpl.definition as TemplateDefinition) || { sections: [] };
+          logo = tpl.logo;
+        } catch (tplErr) {
           console.error("Template fetch error for bulk PDF", tplErr);
           continue;
         }
 
-        const def: TemplateDefinition =
-          (tpl?.definition as TemplateDefinition) || { sections: [] };
-        const logo = (tpl as any)?.logo_data_url as
-          | string
-          | null
-          | undefined;
-
         const items: InspectionItem[] = insp.items || [];
 
         const doc = new jsPDF("p", "mm", "a4");
@@ -849,131 +1840,20 @@ export default function InspectionsPage() {
         y += 7;
 
         doc.setFontSize(10);
-        doc.text(`Site: ${insp.site || "—"}`, 15, y);
-        y += 5;
-        doc.text(
-          `Started: ${formatDateTime(insp.started_at)}`,
-          15,
-          y
-        );
-        y += 5;
-        if (insp.submitted_at) {
-          doc.text(
-            `Submitted: ${formatDateTime(insp.submitted_at)}`,
-            15,
-            y
-          );
-          y += 5;
-        }
-        if (insp.owner_name) {
-          doc.text(`Inspector: ${insp.owner_name}`, 15, y);
-          y += 5;
-        }
-        if (insp.score !== null) {
-          doc.text(`Score: ${insp.score}%`, 15, y);
-          y += 7;
-        }
+        y = addHeaderDetailsToPdf(doc, insp, y, pdfLanguage);
+        const breakdown = computeScoreBreakdown(def, items);
+        y = addScoreBreakdownToPdf(doc, breakdown, y);
 
         y += 2;
         doc.setLineWidth(0.2);
         doc.line(15, y, 195, y);
         y += 5;
 
-        const pageHeight = doc.internal.pageSize.getHeight();
-
-        const addTextWrapped = (text: string, x: number, yPos: number) => {
-          const maxWidth = 180;
-          const lines = doc.splitTextToSize(text, maxWidth);
-          for (const line of lines) {
-            if (yPos > pageHeight - 15) {
-              doc.addPage();
-              yPos = 15;
-            }
-            doc.text(line, x, yPos);
-            yPos += 4;
-          }
-          return yPos;
-        };
-
-        const itemsByKey = new Map<string, InspectionItem>();
-        for (const it of items) {
-          itemsByKey.set(`${it.section_id}:${it.question_id}`, it);
-        }
-
-        for (const section of def.sections || []) {
-          if (section.is_title) {
-            if (y > pageHeight - 20) {
-              doc.addPage();
-              y = 15;
-            }
-            doc.setFontSize(12);
-            doc.setFont(undefined, "bold");
-            y = addTextWrapped(section.title || "Title", 15, y);
-            y += 3;
-            continue;
-          }
-
-          if (y > pageHeight - 20) {
-            doc.addPage();
-            y = 15;
-          }
-          doc.setFontSize(11);
-          doc.setFont(undefined, "bold");
-          y = addTextWrapped(section.title || "Untitled section", 15, y);
-          doc.setFont(undefined, "normal");
-          y += 1;
-
-          for (const q of section.questions || []) {
-            const it =
-              itemsByKey.get(`${section.id}:${q.id}`) ||
-              ({
-                value: null,
-                choice_label: null,
-                notes: null,
-                photos: [],
-                answered_by_name: null,
-              } as InspectionItem);
-
-            if (y > pageHeight - 20) {
-              doc.addPage();
-              y = 15;
-            }
-
-            doc.setFontSize(10);
-            y = addTextWrapped(`• ${q.label}`, 17, y);
-
-            let ansLabel = "";
-            if (q.type === "text") {
-              ansLabel = it.value || "";
-            } else {
-              ansLabel = it.choice_label || "";
-            }
-            if (ansLabel) {
-              y = addTextWrapped(`Answer: ${ansLabel}`, 20, y);
-            }
-
-            if (it.notes) {
-              y = addTextWrapped(`Notes: ${it.notes}`, 20, y);
-            }
-            if (it.photos && it.photos.length > 0) {
-              y = addTextWrapped(
-                `Photos attached: ${it.photos.length}`,
-                20,
-                y
-              );
-            }
-            if (it.answered_by_name) {
-              y = addTextWrapped(
-                `Answered by: ${it.answered_by_name}`,
-                20,
-                y
-              );
-            }
-            y += 3;
-          }
+        y = addCriticalFailuresToPdf(doc, breakdown.critical_failures, y);
 
-          y += 2;
-        }
+        const hiddenForPdf = computeHidden(def.sections || [], items);
+        addInspectionBodyToPdf(doc, def, items, hiddenForPdf, y, pdfLanguage);
+        addGuidanceAppendixToPdf(doc, def, hiddenForPdf, pdfLanguage);
 
         doc.save(
           `inspection-${insp.template_name
@@ -989,6 +1869,524 @@ export default function InspectionsPage() {
     }
   };
 
+  // --------------------------
+  // Question card (used for normal sections and each repeat instance)
+  // --------------------------
+  const renderQuestionCard = (
+    section: TemplateSection,
+    q: TemplateQuestion,
+    instance: SectionInstance | null
+  ) => {
+    const instanceId = instance ? instance.id : null;
+    if (hidden.questions.has(questionKey(section.id, q.id, instanceId))) {
+      return null;
+    }
+    const idx = answers.findIndex(
+      (a) =>
+        a.section_id === section.id &&
+        a.question_id === q.id &&
+        (a.instance_id || null) === instanceId
+    );
+    if (idx === -1) return null;
+    const a = answers[idx];
+    const fieldName = `${section.id}-${instanceId || "main"}-${q.id}`;
+    const hasGuidance = !!q.guidance || !!q.reference_images?.length;
+    const showGuidance = guidanceOpen.includes(fieldName);
+
+    return (
+      <div
+        key={q.id}
+        className="border rounded-xl bg-white p-3 text-xs space-y-2"
+      >
+        <div className="flex justify-between items-start gap-2">
+          <div className="font-medium text-gray-800">
+            {questionLabel(q, language)}
+            {q.required && (
+              <span className="ml-2 text-[10px] text-rose-600">
+                (required)
+              </span>
+            )}
+            {q.critical && (
+              <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded-full text-[9px] font-semibold uppercase tracking-wide bg-rose-600 text-white">
+                Critical
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {hasGuidance && (
+              <button
+                type="button"
+                onClick={() =>
+                  setGuidanceOpen((prev) =>
+                    prev.includes(fieldName)
+                      ? prev.filter((x) => x !== fieldName)
+                      : [...prev, fieldName]
+                  )
+                }
+                className={`px-2 py-0.5 rounded-full border text-[10px] ${
+                  showGuidance
+                    ? "border-sky-300 bg-sky-50 text-sky-700"
+                    : "text-sky-700 hover:bg-sky-50"
+                }`}
+              >
+                {showGuidance ? "Hide guidance" : "Guidance"}
+              </button>
+            )}
+            <div className="text-[10px] text-gray-400">
+              {q.type === "yes_no_na" && "Yes / No / N/A"}
+              {q.type === "good_fair_poor" && "Good / Fair / Poor"}
+              {q.type === "multiple_choice" && "Multiple choice"}
+              {q.type === "text" && "Text response"}
+              {q.type === "signature" && "Signature"}
+              {q.type === "number" && "Numeric reading"}
+              {q.type === "scan" && "QR / barcode"}
+              {q.type === "location" && "GPS location"}
+              {q.type === "response_set" &&
+                (q.response_set?.name || "Response")}
+            </div>
+          </div>
+        </div>
+
+        {showGuidance && (
+          <div className="rounded-xl border border-sky-100 bg-sky-50 p-2 space-y-2 text-gray-700">
+            <MarkdownText source={questionGuidance(q, language)} />
+            {!!q.reference_images?.length && (
+              <div className="flex flex-wrap gap-2">
+                {q.reference_images.map((img, i) => (
+                  <img
+                    key={i}
+                    src={img}
+                    alt={`Reference ${i + 1}`}
+                    className="max-h-40 max-w-full rounded-md border bg-white"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Answer controls */}
+        {q.type === "yes_no_na" && (
+          <div className="flex flex-wrap gap-3">
+            {[
+              { key: "yes", label: "Yes" },
+              { key: "no", label: "No" },
+              { key: "na", label: "N/A" },
+            ].map((opt) => (
+              <label
+                key={opt.key}
+                className="inline-flex items-center gap-1"
+              >
+                <input
+                  type="radio"
+                  name={fieldName}
+                  checked={
+                    a.choice_key === opt.key
+                  }
+                  onChange={() =>
+                    updateAnswer(idx, {
+                      choice_key: opt.key,
+                      choice_label: opt.label,
+                      value: opt.label,
+                    })
+                  }
+                />
+                <span>{choiceLabel(opt.key, language)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {q.type === "good_fair_poor" && (
+          <div className="flex flex-wrap gap-3">
+            {[
+              { key: "good", label: "Good" },
+              { key: "fair", label: "Fair" },
+              { key: "poor", label: "Poor" },
+            ].map((opt) => (
+              <label
+                key={opt.key}
+                className="inline-flex items-center gap-1"
+              >
+                <input
+                  type="radio"
+                  name={fieldName}
+                  checked={
+                    a.choice_key === opt.key
+                  }
+                  onChange={() =>
+                    updateAnswer(idx, {
+                      choice_key: opt.key,
+                      choice_label: opt.label,
+                      value: opt.label,
+                    })
+                  }
+                />
+                <span>{choiceLabel(opt.key, language)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {q.type === "multiple_choice" && (
+          <div className="flex flex-wrap gap-3">
+            {(q.options || []).map((opt) => (
+              <label
+                key={opt}
+                className="inline-flex items-center gap-1"
+              >
+                <input
+                  type="radio"
+                  name={fieldName}
+                  checked={
+                    a.choice_label === opt
+                  }
+                  onChange={() =>
+                    updateAnswer(idx, {
+                      choice_key: opt,
+                      choice_label: opt,
+                      value: opt,
+                    })
+                  }
+                />
+                <span>{optionLabel(q, opt, language)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {q.type === "response_set" && (
+          <div className="flex flex-wrap gap-2">
+            {(q.response_set?.options || []).map((opt) => {
+              const style = colorStyle(opt.color);
+              const selected = a.choice_key === opt.key;
+              return (
+                <button
+                  key={opt.key}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() =>
+                    updateAnswer(
+                      idx,
+                      selected
+                        ? { choice_key: null, choice_label: null, value: null }
+                        : {
+                            choice_key: opt.key,
+                            choice_label: opt.label,
+                            value: opt.label,
+                          }
+                    )
+                  }
+                  className={`px-3 py-1 rounded-xl border text-xs font-medium ${
+                    selected ? style.selected : style.idle
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {q.type === "text" && (
+          <textarea
+            value={a.value || ""}
+            onChange={(e) =>
+              updateAnswer(idx, {
+                value: e.target.value,
+              })
+            }
+            className="w-full border rounded-xl px-2 py-1 text-xs min-h-[60px]"
+            placeholder="Type answer…"
+          />
+        )}
+
+        {q.type === "location" && (
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => captureLocation(a, fieldName)}
+              disabled={locatingKey === fieldName}
+              className="px-2 py-1 rounded-xl border hover:bg-gray-50 disabled:opacity-50"
+            >
+              {locatingKey === fieldName
+                ? "Locating…"
+                : a.location
+                ? "Update location"
+                : "Capture location"}
+            </button>
+            {a.location && (
+              <>
+                <a
+                  href={mapUrlFor(a.location)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-mono text-purple-700 hover:underline"
+                >
+                  {formatGeoPoint(a.location)}
+                </a>
+                <span className="text-[10px] text-gray-400">
+                  {formatDateTime(a.location.captured_at)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateAnswer(idx, { location: null, value: null })
+                  }
+                  className="text-[10px] text-rose-600 hover:underline"
+                >
+                  Clear
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {q.type === "scan" && (
+          <div className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={a.value || ""}
+                onChange={(e) =>
+                  updateAnswer(idx, {
+                    value: e.target.value || null,
+                  })
+                }
+                className={`flex-1 min-w-[10rem] border rounded-xl px-2 py-1 text-xs font-mono ${
+                  matchesExpectedPattern(a.value, q.expected_pattern) === false
+                    ? "border-rose-400 bg-rose-50 text-rose-700"
+                    : ""
+                }`}
+                placeholder="Scan or type the code…"
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  setScanningKey(scanningKey === fieldName ? null : fieldName)
+                }
+                className="px-2 py-1 rounded-xl border hover:bg-gray-50"
+              >
+                {scanningKey === fieldName
+                  ? "Close scanner"
+                  : a.value
+                  ? "Rescan"
+                  : "Scan"}
+              </button>
+            </div>
+            {scanningKey === fieldName && (
+              <BarcodeScanner
+                onDetected={(value) => {
+                  updateAnswer(idx, { value });
+                  setScanningKey(null);
+                }}
+                onClose={() => setScanningKey(null)}
+              />
+            )}
+            {matchesExpectedPattern(a.value, q.expected_pattern) === false && (
+              <div className="text-[10px] font-medium text-rose-600">
+                This code doesn't match the expected format – check you
+                scanned the right asset.
+              </div>
+            )}
+          </div>
+        )}
+
+        {q.type === "number" && (
+          <div className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="number"
+                inputMode="decimal"
+                step={
+                  typeof q.decimals === "number"
+                    ? Math.pow(10, -q.decimals)
+                    : "any"
+                }
+                value={a.value || ""}
+                onChange={(e) =>
+                  updateAnswer(idx, {
+                    value: e.target.value || null,
+                  })
+                }
+                onBlur={(e) => {
+                  const n = Number(e.target.value);
+                  if (
+                    e.target.value !== "" &&
+                    Number.isFinite(n) &&
+                    typeof q.decimals === "number"
+                  ) {
+                    updateAnswer(idx, {
+                      value: n.toFixed(q.decimals),
+                    });
+                  }
+                }}
+                className={`w-32 border rounded-xl px-2 py-1 text-xs ${
+                  isOutOfRange(q, a.value)
+                    ? "border-rose-400 bg-rose-50 text-rose-700"
+                    : ""
+                }`}
+                placeholder="Reading…"
+              />
+              {q.unit && (
+                <span className="text-gray-600">
+                  {q.unit}
+                </span>
+              )}
+              {hasRange(q) && (
+                <span className="text-[10px] text-gray-400">
+                  Acceptable: {formatRange(q)}
+                </span>
+              )}
+            </div>
+            {isOutOfRange(q, a.value) && (
+              <div className="text-[10px] font-medium text-rose-600">
+                Out of range – this reading will
+                count as a fail.
+              </div>
+            )}
+          </div>
+        )}
+
+        {q.type === "signature" && (
+          <div className="space-y-2">
+            <SignaturePad
+              value={a.signature?.data_url || null}
+              onChange={(url) =>
+                updateSignature(idx, {
+                  data_url: url,
+                })
+              }
+              disabled={
+                activeInspection.status ===
+                "submitted"
+              }
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="text-[10px] text-gray-500">
+                Signer name
+              </label>
+              <input
+                value={
+                  a.signature
+                    ? a.signature.signer_name
+                    : currentUserName || ""
+                }
+                onChange={(e) =>
+                  updateSignature(idx, {
+                    signer_name: e.target.value,
+                  })
+                }
+                className="border rounded-xl px-2 py-1 text-xs"
+                placeholder="Full name…"
+              />
+              {a.signature?.signed_at && (
+                <span className="text-[10px] text-gray-400">
+                  Signed{" "}
+                  {formatDateTime(
+                    a.signature.signed_at
+                  )}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Notes */}
+        {q.allowNotes && (
+          <div>
+            <label className="block text-[10px] text-gray-500 mb-1">
+              Notes
+            </label>
+            <textarea
+              value={a.notes || ""}
+              onChange={(e) =>
+                updateAnswer(idx, {
+                  notes: e.target.value,
+                })
+              }
+              className="w-full border rounded-xl px-2 py-1 text-[11px] min-h-[40px]"
+              placeholder="Optional notes…"
+            />
+          </div>
+        )}
+
+        {/* Photos */}
+        {q.allowPhoto && (
+          <div className="space-y-1">
+            <label className="block text-[10px] text-gray-500">
+              Photos
+            </label>
+            <div className="flex flex-wrap gap-2 items-center">
+              <label className="inline-flex items-center gap-2 text-[11px] cursor-pointer">
+                <span className="px-2 py-1 border rounded-xl bg-white hover:bg-gray-50">
+                  + Add photo
+                </span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) =>
+                    handlePhotoChange(
+                      idx,
+                      e.target.files
+                        ? e.target.files[0]
+                        : null
+                    )
+                  }
+                />
+              </label>
+              {a.photos && a.photos.length > 0 && (
+                <span className="text-[10px] text-gray-400">
+                  {a.photos.length} photo
+                  {a.photos.length === 1 ? "" : "s"}{" "}
+                  attached
+                </span>
+              )}
+            </div>
+            {a.photos && a.photos.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-1">
+                {a.photos.map((p, i) => (
+                  <img
+                    key={i}
+                    src={p}
+                    alt={`Photo ${i + 1}`}
+                    className="h-12 w-12 rounded-md object-cover border bg-gray-50"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Answered by */}
+        {(a.answered_by_name ||
+          a.answered_by_user_id) && (
+          <div className="pt-1 border-t border-dashed border-gray-100 mt-1 text-[10px] text-gray-400">
+            <span>
+              Last answered by{" "}
+              {a.answered_by_name ||
+                "this inspector"}
+            </span>
+          </div>
+        )}
+      </div>
+    );
+  };
+  const renderRowCard = (insp: InspectionRow) => (
+    <InspectionRowCard
+      key={insp.id}
+      insp={insp}
+      siteName={siteNameFor(insp.site_id)}
+      selected={selectedIds.includes(insp.id)}
+      onToggleSelected={() => toggleSelected(insp.id)}
+      onOpen={() => openInspectionModal(insp)}
+      onDeleted={loadInspections}
+      canDuplicate={isAdmin || isManager}
+      onDuplicate={() => duplicateInspection(insp)}
+      isAdmin={isAdmin}
+    />
+  );
+
   // --------------------------
   // Render
   // --------------------------
@@ -1054,6 +2452,18 @@ export default function InspectionsPage() {
             <span className="text-gray-400">
               Selected: {selectedIds.length}
             </span>
+            <select
+              value={pdfLanguage}
+              onChange={(e) => setPdfLanguage(e.target.value)}
+              className="border rounded-xl px-2 py-1 text-xs"
+              title="PDF language (untranslated text stays in English)"
+            >
+              {LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.label}
+                </option>
+              ))}
+            </select>
             <button
               onClick={bulkDownloadSelected}
               disabled={!selectedIds.length || bulkBusy}
@@ -1090,26 +2500,31 @@ export default function InspectionsPage() {
         </div>
       ) : (
         <div className="space-y-4">
+          {overdue.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-semibold text-rose-700">
+                Overdue ({overdue.length})
+              </h2>
+              <div className="space-y-2">{overdue.map(renderRowCard)}</div>
+            </div>
+          )}
+
+          {dueToday.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-semibold text-amber-700">
+                Due today ({dueToday.length})
+              </h2>
+              <div className="space-y-2">{dueToday.map(renderRowCard)}</div>
+            </div>
+          )}
+
           {inProgress.length > 0 && (
             <div className="space-y-2">
               <h2 className="text-sm font-semibold text-gray-700">
                 In progress
               </h2>
               <div className="space-y-2">
-                {inProgress.map((insp) => (
-                  <InspectionRowCard
-                    key={insp.id}
-                    insp={insp}
-                    siteName={siteNameFor(insp.site_id)}
-                    selected={selectedIds.includes(insp.id)}
-                    onToggleSelected={() => toggleSelected(insp.id)}
-                    onOpen={() => openInspectionModal(insp)}
-                    onDeleted={loadInspections}
-                    canDuplicate={isAdmin || isManager}
-                    onDuplicate={() => duplicateInspection(insp)}
-                    isAdmin={isAdmin}
-                  />
-                ))}
+                {inProgress.map(renderRowCard)}
               </div>
             </div>
           )}
@@ -1120,20 +2535,7 @@ export default function InspectionsPage() {
                 Completed
               </h2>
               <div className="space-y-2">
-                {submitted.map((insp) => (
-                  <InspectionRowCard
-                    key={insp.id}
-                    insp={insp}
-                    siteName={siteNameFor(insp.site_id)}
-                    selected={selectedIds.includes(insp.id)}
-                    onToggleSelected={() => toggleSelected(insp.id)}
-                    onOpen={() => openInspectionModal(insp)}
-                    onDeleted={loadInspections}
-                    canDuplicate={isAdmin || isManager}
-                    onDuplicate={() => duplicateInspection(insp)}
-                    isAdmin={isAdmin}
-                  />
-                ))}
+                {submitted.map(renderRowCard)}
               </div>
             </div>
           )}
@@ -1169,15 +2571,72 @@ export default function InspectionsPage() {
                       <p className="text-xs text-gray-500">
                         Site: {activeInspection.site || "—"} • Started:{" "}
                         {formatDateTime(activeInspection.started_at)}
+                        {activeInspection.template_version !== null && (
+                          <> • Template v{activeInspection.template_version}</>
+                        )}
                       </p>
+                      {(activeInspection.start_location ||
+                        activeInspection.submit_location) && (
+                        <p className="text-[11px] text-gray-400">
+                          {activeInspection.start_location && (
+                            <>
+                              Start location:{" "}
+                              <a
+                                href={mapUrlFor(activeInspection.start_location)}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="hover:underline"
+                              >
+                                {formatGeoPoint(activeInspection.start_location)}
+                              </a>
+                            </>
+                          )}
+                          {activeInspection.start_location &&
+                            activeInspection.submit_location &&
+                            " • "}
+                          {activeInspection.submit_location && (
+                            <>
+                              Submit location:{" "}
+                              <a
+                                href={mapUrlFor(
+                                  activeInspection.submit_location
+                                )}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="hover:underline"
+                              >
+                                {formatGeoPoint(
+                                  activeInspection.submit_location
+                                )}
+                              </a>
+                            </>
+                          )}
+                        </p>
+                      )}
                     </div>
                   </div>
-                  <button
-                    onClick={closeInspectionModal}
-                    className="text-sm text-gray-500 hover:text-gray-800"
-                  >
-                    Close
-                  </button>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    {templateLanguages(activeDefinition).length > 1 && (
+                      <select
+                        value={language}
+                        onChange={(e) => setLanguage(e.target.value)}
+                        className="border rounded-xl px-2 py-1 text-xs"
+                        aria-label="Language"
+                      >
+                        {templateLanguages(activeDefinition).map((l) => (
+                          <option key={l.code} value={l.code}>
+                            {l.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={closeInspectionModal}
+                      className="text-sm text-gray-500 hover:text-gray-800"
+                    >
+                      Close
+                    </button>
+                  </div>
                 </div>
 
                 <div className="flex flex-col md:flex-row gap-4">
@@ -1193,13 +2652,16 @@ export default function InspectionsPage() {
                                 Section group
                               </span>
                               <div className="mt-1 text-sm font-semibold text-purple-900">
-                                {section.title}
+                                {sectionTitle(section, language)}
                               </div>
                             </div>
                           </div>
                         );
                       }
 
+                      // Hidden by conditional logic
+                      if (hidden.sections.has(section.id)) return null;
+
                       // Normal section with questions
                       return (
                         <div
@@ -1215,231 +2677,67 @@ export default function InspectionsPage() {
                               />
                             )}
                             <h3 className="text-sm font-semibold text-gray-800">
-                              {section.title}
+                              {sectionTitle(section, language)}
                             </h3>
                           </div>
 
-                          <div className="space-y-2">
-                            {section.questions.map((q) => {
-                              const idx = answers.findIndex(
-                                (a) =>
-                                  a.section_id === section.id &&
-                                  a.question_id === q.id
-                              );
-                              if (idx === -1) return null;
-                              const a = answers[idx];
-
-                              return (
-                                <div
-                                  key={q.id}
-                                  className="border rounded-xl bg-white p-3 text-xs space-y-2"
-                                >
-                                  <div className="flex justify-between items-start gap-2">
-                                    <div className="font-medium text-gray-800">
-                                      {q.label}
-                                      {q.required && (
-                                        <span className="ml-2 text-[10px] text-rose-600">
-                                          (required)
-                                        </span>
-                                      )}
-                                    </div>
-                                    <div className="text-[10px] text-gray-400">
-                                      {q.type === "yes_no_na" &&
-                                        "Yes / No / N/A"}
-                                      {q.type === "good_fair_poor" &&
-                                        "Good / Fair / Poor"}
-                                      {q.type === "multiple_choice" &&
-                                        "Multiple choice"}
-                                      {q.type === "text" &&
-                                        "Text response"}
-                                    </div>
-                                  </div>
-
-                                  {/* Answer controls */}
-                                  {q.type === "yes_no_na" && (
-                                    <div className="flex flex-wrap gap-3">
-                                      {[
-                                        { key: "yes", label: "Yes" },
-                                        { key: "no", label: "No" },
-                                        { key: "na", label: "N/A" },
-                                      ].map((opt) => (
-                                        <label
-                                          key={opt.key}
-                                          className="inline-flex items-center gap-1"
-                                        >
-                                          <input
-                                            type="radio"
-                                            name={`${section.id}-${q.id}`}
-                                            checked={
-                                              a.choice_key === opt.key
-                                            }
-                                            onChange={() =>
-                                              updateAnswer(idx, {
-                                                choice_key: opt.key,
-                                                choice_label: opt.label,
-                                                value: opt.label,
-                                              })
-                                            }
-                                          />
-                                          <span>{opt.label}</span>
-                                        </label>
-                                      ))}
-                                    </div>
-                                  )}
-
-                                  {q.type === "good_fair_poor" && (
-                                    <div className="flex flex-wrap gap-3">
-                                      {[
-                                        { key: "good", label: "Good" },
-                                        { key: "fair", label: "Fair" },
-                                        { key: "poor", label: "Poor" },
-                                      ].map((opt) => (
-                                        <label
-                                          key={opt.key}
-                                          className="inline-flex items-center gap-1"
-                                        >
-                                          <input
-                                            type="radio"
-                                            name={`${section.id}-${q.id}`}
-                                            checked={
-                                              a.choice_key === opt.key
-                                            }
-                                            onChange={() =>
-                                              updateAnswer(idx, {
-                                                choice_key: opt.key,
-                                                choice_label: opt.label,
-                                                value: opt.label,
-                                              })
-                                            }
-                                          />
-                                          <span>{opt.label}</span>
-                                        </label>
-                                      ))}
-                                    </div>
-                                  )}
-
-                                  {q.type === "multiple_choice" && (
-                                    <div className="flex flex-wrap gap-3">
-                                      {(q.options || []).map((opt) => (
-                                        <label
-                                          key={opt}
-                                          className="inline-flex items-center gap-1"
-                                        >
-                                          <input
-                                            type="radio"
-                                            name={`${section.id}-${q.id}`}
-                                            checked={
-                                              a.choice_label === opt
-                                            }
-                                            onChange={() =>
-                                              updateAnswer(idx, {
-                                                choice_key: opt,
-                                                choice_label: opt,
-                                                value: opt,
-                                              })
-                                            }
-                                          />
-                                          <span>{opt}</span>
-                                        </label>
-                                      ))}
-                                    </div>
-                                  )}
-
-                                  {q.type === "text" && (
-                                    <textarea
-                                      value={a.value || ""}
-                                      onChange={(e) =>
-                                        updateAnswer(idx, {
-                                          value: e.target.value,
-                                        })
-                                      }
-                                      className="w-full border rounded-xl px-2 py-1 text-xs min-h-[60px]"
-                                      placeholder="Type answer…"
-                                    />
-                                  )}
-
-                                  {/* Notes */}
-                                  {q.allowNotes && (
-                                    <div>
-                                      <label className="block text-[10px] text-gray-500 mb-1">
-                                        Notes
-                                      </label>
-                                      <textarea
-                                        value={a.notes || ""}
+                          {section.repeatable ? (
+                            <div className="space-y-3">
+                              {instancesFor(section.id, answers).map(
+                                (inst, instIndex, all) => (
+                                  <div
+                                    key={inst.id}
+                                    className="border rounded-xl bg-white p-2 space-y-2"
+                                  >
+                                    <div className="flex items-center gap-2">
+                                      <input
+                                        value={inst.label}
                                         onChange={(e) =>
-                                          updateAnswer(idx, {
-                                            notes: e.target.value,
-                                          })
+                                          renameInstance(
+                                            section.id,
+                                            inst.id,
+                                            e.target.value
+                                          )
                                         }
-                                        className="w-full border rounded-xl px-2 py-1 text-[11px] min-h-[40px]"
-                                        placeholder="Optional notes…"
+                                        placeholder={`${instanceBaseLabel(
+                                          section,
+                                          language
+                                        )} #${instIndex + 1}`}
+                                        className="flex-1 border rounded-xl px-2 py-1 text-xs font-semibold text-gray-800"
                                       />
-                                    </div>
-                                  )}
-
-                                  {/* Photos */}
-                                  {q.allowPhoto && (
-                                    <div className="space-y-1">
-                                      <label className="block text-[10px] text-gray-500">
-                                        Photos
-                                      </label>
-                                      <div className="flex flex-wrap gap-2 items-center">
-                                        <label className="inline-flex items-center gap-2 text-[11px] cursor-pointer">
-                                          <span className="px-2 py-1 border rounded-xl bg-white hover:bg-gray-50">
-                                            + Add photo
-                                          </span>
-                                          <input
-                                            type="file"
-                                            accept="image/*"
-                                            className="hidden"
-                                            onChange={(e) =>
-                                              handlePhotoChange(
-                                                idx,
-                                                e.target.files
-                                                  ? e.target.files[0]
-                                                  : null
-                                              )
-                                            }
-                                          />
-                                        </label>
-                                        {a.photos && a.photos.length > 0 && (
-                                          <span className="text-[10px] text-gray-400">
-                                            {a.photos.length} photo
-                                            {a.photos.length === 1 ? "" : "s"}{" "}
-                                            attached
-                                          </span>
-                                        )}
-                                      </div>
-                                      {a.photos && a.photos.length > 0 && (
-                                        <div className="flex flex-wrap gap-2 mt-1">
-                                          {a.photos.map((p, i) => (
-                                            <img
-                                              key={i}
-                                              src={p}
-                                              alt={`Photo ${i + 1}`}
-                                              className="h-12 w-12 rounded-md object-cover border bg-gray-50"
-                                            />
-                                          ))}
-                                        </div>
+                                      {all.length > 1 && (
+                                        <button
+                                          onClick={() =>
+                                            removeInstance(section.id, inst)
+                                          }
+                                          className="text-[11px] text-rose-600 hover:underline"
+                                        >
+                                          Remove
+                                        </button>
                                       )}
                                     </div>
-                                  )}
-
-                                  {/* Answered by */}
-                                  {(a.answered_by_name ||
-                                    a.answered_by_user_id) && (
-                                    <div className="pt-1 border-t border-dashed border-gray-100 mt-1 text-[10px] text-gray-400">
-                                      <span>
-                                        Last answered by{" "}
-                                        {a.answered_by_name ||
-                                          "this inspector"}
-                                      </span>
+                                    <div className="space-y-2">
+                                      {section.questions.map((q) =>
+                                        renderQuestionCard(section, q, inst)
+                                      )}
                                     </div>
-                                  )}
-                                </div>
-                              );
-                            })}
-                          </div>
+                                  </div>
+                                )
+                              )}
+                              <button
+                                onClick={() => addInstance(section)}
+                                className="px-3 py-1 rounded-xl border bg-white text-xs text-purple-700 hover:bg-purple-50"
+                              >
+                                + Add {instanceBaseLabel(section, language)}
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="space-y-2">
+                              {section.questions.map((q) =>
+                                renderQuestionCard(section, q, null)
+                              )}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -1461,15 +2759,64 @@ export default function InspectionsPage() {
                                 : "Completed"}
                             </span>
                           </span>
-                          {activeInspection.score !== null && (
+                          {liveBreakdown && liveBreakdown.score !== null && (
                             <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] bg-white border text-gray-600">
                               Score:{" "}
                               <span className="ml-1 font-semibold text-gray-900">
-                                {activeInspection.score}%
+                                {liveBreakdown.score}%
                               </span>
                             </span>
                           )}
+                          {liveBreakdown && liveBreakdown.passed !== null && (
+                            <span
+                              className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] border font-semibold ${
+                                liveBreakdown.passed
+                                  ? "bg-emerald-50 border-emerald-200 text-emerald-700"
+                                  : "bg-rose-50 border-rose-200 text-rose-700"
+                              }`}
+                            >
+                              {liveBreakdown.passed ? "Pass" : "Fail"}
+                              {liveBreakdown.critical_failures.length > 0
+                                ? " (critical)"
+                                : ` (${liveBreakdown.pass_threshold}% needed)`}
+                            </span>
+                          )}
                         </div>
+                        {liveBreakdown &&
+                          liveBreakdown.critical_failures.length > 0 && (
+                            <div className="rounded-xl border border-rose-200 bg-rose-50 p-2 space-y-1">
+                              <div className="text-[10px] font-semibold uppercase tracking-wide text-rose-700">
+                                Critical failure – inspection fails
+                              </div>
+                              {liveBreakdown.critical_failures.map((f, i) => (
+                                <div
+                                  key={i}
+                                  className="text-[10px] text-rose-700"
+                                >
+                                  • {f.question_label}
+                                  {f.answer && ` – ${f.answer}`}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        {liveBreakdown && liveBreakdown.sections.length > 0 && (
+                          <div className="space-y-0.5 pt-1">
+                            {liveBreakdown.sections.map((sc) => (
+                              <div
+                                key={sc.section_id}
+                                className="flex justify-between gap-2 text-[10px] text-gray-500"
+                              >
+                                <span className="truncate">
+                                  {sc.title || "Section"}
+                                  {sc.weight !== 1 && ` ×${sc.weight}`}
+                                </span>
+                                <span className="font-medium text-gray-700">
+                                  {sc.percent}%
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
 
                       <div className="space-y-1">
@@ -1548,6 +2895,12 @@ function InspectionRowCard({
   onDuplicate,
   isAdmin,
 }: InspectionRowCardProps) {
+  const dueState = dueStateOf(insp);
+  const criticalCount = (insp.items || []).filter(
+    (it) => it.critical_failure && !it.hidden
+  ).length;
+  const failed = insp.passed === false || insp.critical_failed;
+
   const handleDelete = async () => {
     if (!isAdmin) {
       alert("Only admins can delete inspections.");
@@ -1588,13 +2941,38 @@ function InspectionRowCard({
               {insp.status === "in_progress" ? "In progress" : "Completed"}
             </span>
             {insp.score !== null && (
-              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] bg-purple-50 border border-purple-200 text-purple-700">
+              <span
+                className={
+                  "inline-flex items-center px-2 py-0.5 rounded-full text-[10px] border " +
+                  (failed
+                    ? "bg-rose-50 border-rose-200 text-rose-700"
+                    : "bg-purple-50 border-purple-200 text-purple-700")
+                }
+              >
                 Score: {insp.score}%
+                {insp.passed === true && " – Pass"}
+                {failed && " – Fail"}
+              </span>
+            )}
+            {dueState === "overdue" && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-semibold bg-rose-50 border border-rose-200 text-rose-700">
+                Overdue
+              </span>
+            )}
+            {dueState === "due_today" && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-semibold bg-amber-50 border border-amber-200 text-amber-700">
+                Due today
+              </span>
+            )}
+            {(insp.critical_failed || criticalCount > 0) && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-semibold bg-rose-600 text-white">
+                Critical failure{criticalCount > 1 ? ` ×${criticalCount}` : ""}
               </span>
             )}
           </div>
           <div className="text-[11px] text-gray-500">
             Site: {siteName} • Started: {formatDateTime(insp.started_at)}
+            {insp.due_at && <> • Due: {formatDateTime(insp.due_at)}</>}
             {insp.submitted_at && (
               <>
                 {" "}
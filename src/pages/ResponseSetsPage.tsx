@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from "react";
+import { supabase } from "@/utils/supabaseClient";
+import {
+  colorStyle,
+  normaliseResponseSet,
+  RESPONSE_COLORS,
+  ResponseColor,
+  ResponseOption,
+  ResponseSet,
+} from "@/utils/responseSets";
+import { randomId } from "@/utils/ids";
+
+const emptyOption = (): ResponseOption => ({
+  key: randomId("opt"),
+  label: "",
+  color: "gray",
+  score: null,
+});
+
+export default function ResponseSetsPage() {
+  const [sets, setSets] = useState<ResponseSet[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // form state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [options, setOptions] = useState<ResponseOption[]>([
+    emptyOption(),
+    emptyOption(),
+  ]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setOptions([emptyOption(), emptyOption()]);
+  };
+
+  const loadSets = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("response_sets")
+      .select("id, name, options")
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("loadSets error", error);
+      alert("Could not load response sets.");
+      setSets([]);
+    } else {
+      setSets((data || []).map(normaliseResponseSet));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSets();
+  }, []);
+
+  const updateOption = (index: number, patch: Partial<ResponseOption>) => {
+    setOptions((prev) =>
+      prev.map((o, i) => (i === index ? { ...o, ...patch } : o))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      alert("Response set name is required.");
+      return;
+    }
+    const cleaned = options
+      .map((o) => ({ ...o, label: o.label.trim() }))
+      .filter((o) => o.label);
+    if (cleaned.length < 2) {
+      alert("Add at least two responses.");
+      return;
+    }
+    const labels = cleaned.map((o) => o.label.toLowerCase());
+    if (new Set(labels).size !== labels.length) {
+      alert("Each response needs a different label.");
+      return;
+    }
+
+    const payload = {
+      name: name.trim(),
+      options: cleaned,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (editingId) {
+      // update existing (templates keep their own snapshot until re-picked)
+      const { error } = await supabase
+        .from("response_sets")
+        .update(payload)
+        .eq("id", editingId);
+
+      if (error) {
+        console.error("update response set error", error);
+        alert("Could not update response set.");
+        return;
+      }
+    } else {
+      const { error } = await supabase.from("response_sets").insert(payload);
+
+      if (error) {
+        console.error("create response set error", error);
+        alert("Could not create response set.");
+        return;
+      }
+    }
+
+    resetForm();
+    loadSets();
+  };
+
+  const startEdit = (set: ResponseSet) => {
+    setEditingId(set.id);
+    setName(set.name);
+    setOptions(set.options.map((o) => ({ ...o })));
+  };
+
+  const handleDelete = async (set: ResponseSet) => {
+    if (
+      !window.confirm(
+        `Delete response set "${set.name}"? Existing templates keep their copy of it.`
+      )
+    ) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("response_sets")
+      .delete()
+      .eq("id", set.id);
+    if (error) {
+      console.error("delete response set error", error);
+      alert("Could not delete response set.");
+      return;
+    }
+    loadSets();
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-royal-700">Response sets</h1>
+        <p className="text-sm text-gray-600">
+          Build your own answer scales with colours and scores, then use them
+          as a question type in templates.
+        </p>
+      </div>
+
+      {/* Create / edit form */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white border rounded-2xl p-4 space-y-3"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-royal-700 text-sm">
+            {editingId ? "Edit response set" : "Create response set"}
+          </h2>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-xs text-gray-500 hover:underline"
+            >
+              Cancel edit
+            </button>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Name</label>
+          <input
+            className="w-full border rounded-xl px-3 py-2 text-sm"
+            placeholder="e.g. Compliance"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs text-gray-500">
+            Responses (score is optional; leave blank for N/A-style answers)
+          </label>
+          {options.map((opt, index) => (
+            <div key={opt.key} className="flex flex-wrap items-center gap-2">
+              <input
+                className="flex-1 min-w-[160px] border rounded-xl px-3 py-1.5 text-sm"
+                placeholder={`Response ${index + 1}`}
+                value={opt.label}
+                onChange={(e) => updateOption(index, { label: e.target.value })}
+              />
+              <select
+                value={opt.color}
+                onChange={(e) =>
+                  updateOption(index, {
+                    color: e.target.value as ResponseColor,
+                  })
+                }
+                className="border rounded-xl px-2 py-1.5 text-xs"
+              >
+                {(Object.keys(RESPONSE_COLORS) as ResponseColor[]).map((c) => (
+                  <option key={c} value={c}>
+                    {RESPONSE_COLORS[c].label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="any"
+                className="w-20 border rounded-xl px-2 py-1.5 text-xs"
+                placeholder="Score"
+                value={opt.score ?? ""}
+                onChange={(e) => {
+                  const n = Number(e.target.value);
+                  updateOption(index, {
+                    score:
+                      e.target.value.trim() === "" || !Number.isFinite(n)
+                        ? null
+                        : n,
+                  });
+                }}
+              />
+              <span
+                className={`px-3 py-1 rounded-xl border text-xs ${
+                  colorStyle(opt.color).selected
+                }`}
+              >
+                {opt.label || "Preview"}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setOptions((prev) => prev.filter((_, i) => i !== index))
+                }
+                disabled={options.length <= 2}
+                className="text-xs text-rose-600 hover:underline disabled:opacity-40"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setOptions((prev) => [...prev, emptyOption()])}
+            className="px-3 py-1 rounded-xl border text-xs hover:bg-gray-50"
+          >
+            + Add response
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-xl bg-royal-700 text-white text-sm hover:bg-royal-800"
+          >
+            {editingId ? "Save changes" : "Create response set"}
+          </button>
+        </div>
+      </form>
+
+      {/* Response set list */}
+      <div className="bg-white border rounded-2xl p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-sm text-gray-700">
+            All response sets
+          </h2>
+          {loading && (
+            <span className="text-xs text-gray-400">Loading…</span>
+          )}
+        </div>
+
+        {sets.length === 0 && !loading && (
+          <div className="text-sm text-gray-600">
+            No response sets yet. Create your first one above.
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {sets.map((set) => (
+            <div
+              key={set.id}
+              className="border rounded-xl px-3 py-2 text-sm flex justify-between items-center gap-3"
+            >
+              <div className="space-y-1">
+                <div className="font-semibold text-gray-800">{set.name}</div>
+                <div className="flex flex-wrap gap-1">
+                  {set.options.map((o) => (
+                    <span
+                      key={o.key}
+                      className={`px-2 py-0.5 rounded-xl border text-[11px] ${
+                        colorStyle(o.color).selected
+                      }`}
+                    >
+                      {o.label}
+                      {typeof o.score === "number" && ` (${o.score})`}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => startEdit(set)}
+                  className="px-3 py-1 rounded-xl border text-xs hover:bg-gray-50"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(set)}
+                  className="px-3 py-1 rounded-xl border text-xs text-rose-600 hover:bg-rose-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
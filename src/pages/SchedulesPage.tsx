@@ -0,0 +1,533 @@
+import React, { useEffect, useState } from "react";
+import { supabase } from "@/utils/supabaseClient";
+import {
+  FREQUENCY_LABELS,
+  generateDueInspections,
+  InspectionSchedule,
+  mapScheduleRow,
+  nextOccurrence,
+  ScheduleAssignee,
+  ScheduleFrequency,
+  toDateKey,
+} from "@/utils/schedules";
+
+type Role = "admin" | "manager" | "inspector" | string | null;
+
+type TemplateOption = {
+  id: string;
+  name: string;
+};
+
+type SiteRow = {
+  id: string;
+  name: string;
+};
+
+type UserOption = {
+  user_id: string;
+  name: string;
+};
+
+export default function SchedulesPage() {
+  const [role, setRole] = useState<Role>(null);
+  const [schedules, setSchedules] = useState<InspectionSchedule[]>([]);
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [sites, setSites] = useState<SiteRow[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  // form state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState("");
+  const [siteIds, setSiteIds] = useState<string[]>([]);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [frequency, setFrequency] = useState<ScheduleFrequency>("weekly");
+  const [intervalDays, setIntervalDays] = useState("14");
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [endDate, setEndDate] = useState("");
+  const [dueTime, setDueTime] = useState("09:00");
+  const [isActive, setIsActive] = useState(true);
+
+  const canManage = role === "admin" || role === "manager";
+
+  const resetForm = () => {
+    setEditingId(null);
+    setTemplateId("");
+    setSiteIds([]);
+    setAssigneeIds([]);
+    setFrequency("weekly");
+    setIntervalDays("14");
+    setStartDate(toDateKey(new Date()));
+    setEndDate("");
+    setDueTime("09:00");
+    setIsActive(true);
+  };
+
+  const loadAll = async () => {
+    setLoading(true);
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      const user = userData?.user;
+      if (user) {
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("role")
+          .eq("user_id", user.id)
+          .single();
+        setRole((profile?.role as Role) || "inspector");
+      }
+
+      const [schedRes, tplRes, sitesRes, usersRes] = await Promise.all([
+        supabase
+          .from("inspection_schedules")
+          .select(
+            "id, template_id, template_name, site_ids, assignees, frequency, interval_days, start_date, end_date, due_time, is_active, last_generated_on"
+          )
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("templates")
+          .select("id, name")
+          .neq("status", "retired")
+          .order("name", { ascending: true }),
+        supabase
+          .from("sites")
+          .select("id, name")
+          .order("name", { ascending: true }),
+        supabase
+          .from("profiles")
+          .select("user_id, name, email")
+          .order("name", { ascending: true }),
+      ]);
+
+      if (schedRes.error) throw schedRes.error;
+      if (tplRes.error) throw tplRes.error;
+      if (sitesRes.error) throw sitesRes.error;
+
+      setSchedules((schedRes.data || []).map(mapScheduleRow));
+      setTemplates((tplRes.data || []) as TemplateOption[]);
+      setSites((sitesRes.data || []) as SiteRow[]);
+      setUsers(
+        (usersRes.data || []).map((u: any) => ({
+          user_id: u.user_id,
+          name: u.name || u.email || "User",
+        }))
+      );
+    } catch (e: any) {
+      console.error("loadSchedules error", e);
+      alert(e?.message || "Could not load schedules.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const toggleIn = (list: string[], id: string) =>
+    list.includes(id) ? list.filter((x) => x !== id) : [...list, id];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tpl = templates.find((t) => t.id === templateId);
+    if (!tpl) {
+      alert("Choose a template.");
+      return;
+    }
+    if (!startDate) {
+      alert("Start date is required.");
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      alert("End date must be after the start date.");
+      return;
+    }
+    const interval = Number(intervalDays);
+    if (
+      frequency === "custom" &&
+      (!Number.isInteger(interval) || interval < 1)
+    ) {
+      alert("Enter the number of days between inspections.");
+      return;
+    }
+
+    const assignees: ScheduleAssignee[] = users
+      .filter((u) => assigneeIds.includes(u.user_id))
+      .map((u) => ({ user_id: u.user_id, name: u.name }));
+
+    const payload = {
+      template_id: tpl.id,
+      template_name: tpl.name,
+      site_ids: siteIds,
+      assignees,
+      frequency,
+      interval_days: frequency === "custom" ? interval : null,
+      start_date: startDate,
+      end_date: endDate || null,
+      due_time: dueTime || "09:00",
+      is_active: isActive,
+    };
+
+    if (editingId) {
+      const { error } = await supabase
+        .from("inspection_schedules")
+        .update(payload)
+        .eq("id", editingId);
+
+      if (error) {
+        console.error("update schedule error", error);
+        alert("Could not update schedule.");
+        return;
+      }
+    } else {
+      const { error } = await supabase
+        .from("inspection_schedules")
+        .insert(payload);
+
+      if (error) {
+        console.error("create schedule error", error);
+        alert("Could not create schedule.");
+        return;
+      }
+    }
+
+    resetForm();
+    loadAll();
+  };
+
+  const startEdit = (s: InspectionSchedule) => {
+    setEditingId(s.id);
+    setTemplateId(s.template_id);
+    setSiteIds(s.site_ids);
+    setAssigneeIds(s.assignees.map((a) => a.user_id));
+    setFrequency(s.frequency);
+    setIntervalDays(String(s.interval_days || 14));
+    setStartDate(s.start_date);
+    setEndDate(s.end_date || "");
+    setDueTime(s.due_time);
+    setIsActive(s.is_active);
+  };
+
+  const handleDelete = async (s: InspectionSchedule) => {
+    if (
+      !window.confirm(
+        `Delete the schedule for "${s.template_name}"? Inspections already generated are kept.`
+      )
+    ) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("inspection_schedules")
+      .delete()
+      .eq("id", s.id);
+    if (error) {
+      console.error("delete schedule error", error);
+      alert("Could not delete schedule.");
+      return;
+    }
+    loadAll();
+  };
+
+  const handleGenerateNow = async () => {
+    setGenerating(true);
+    try {
+      const created = await generateDueInspections();
+      alert(
+        created
+          ? `Created ${created} due inspection(s).`
+          : "Everything is up to date."
+      );
+      loadAll();
+    } catch (e: any) {
+      console.error("generateDueInspections error", e);
+      alert(e?.message || "Could not generate inspections.");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const siteNames = (ids: string[]) =>
+    ids.length
+      ? ids
+          .map((id) => sites.find((s) => s.id === id)?.name || "Unknown site")
+          .join(", ")
+      : "No site";
+
+  const describeFrequency = (s: InspectionSchedule) =>
+    s.frequency === "custom"
+      ? `Every ${s.interval_days || 1} day(s)`
+      : FREQUENCY_LABELS[s.frequency];
+
+  if (!loading && !canManage) {
+    return (
+      <div className="max-w-4xl mx-auto py-6">
+        <div className="bg-white border rounded-2xl p-4 text-sm text-gray-600">
+          Only managers and admins can manage inspection schedules.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-6 space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-royal-700">Schedules</h1>
+          <p className="text-sm text-gray-600">
+            Recurring inspections: pick a template, sites and who should do
+            them. Due inspections appear automatically on the due date.
+          </p>
+        </div>
+        <button
+          onClick={handleGenerateNow}
+          disabled={generating}
+          className="px-3 py-2 rounded-xl border text-xs hover:bg-gray-50 disabled:opacity-50"
+        >
+          {generating ? "Generating…" : "Generate due now"}
+        </button>
+      </div>
+
+      {/* Create / edit form */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white border rounded-2xl p-4 space-y-3"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-royal-700 text-sm">
+            {editingId ? "Edit schedule" : "Create schedule"}
+          </h2>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-xs text-gray-500 hover:underline"
+            >
+              Cancel edit
+            </button>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-3">
+          <div className="md:col-span-2">
+            <label className="block text-xs text-gray-500 mb-1">Template</label>
+            <select
+              className="w-full border rounded-xl px-3 py-2 text-sm"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+            >
+              <option value="">Choose a template…</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Frequency
+            </label>
+            <select
+              className="w-full border rounded-xl px-3 py-2 text-sm"
+              value={frequency}
+              onChange={(e) =>
+                setFrequency(e.target.value as ScheduleFrequency)
+              }
+            >
+              {(Object.keys(FREQUENCY_LABELS) as ScheduleFrequency[]).map(
+                (f) => (
+                  <option key={f} value={f}>
+                    {FREQUENCY_LABELS[f]}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Start date
+            </label>
+            <input
+              type="date"
+              className="w-full border rounded-xl px-3 py-2 text-sm"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              End date (optional)
+            </label>
+            <input
+              type="date"
+              className="w-full border rounded-xl px-3 py-2 text-sm"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Due by</label>
+            <input
+              type="time"
+              className="w-full border rounded-xl px-3 py-2 text-sm"
+              value={dueTime}
+              onChange={(e) => setDueTime(e.target.value)}
+            />
+          </div>
+          {frequency === "custom" && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">
+                Every N days
+              </label>
+              <input
+                type="number"
+                min={1}
+                className="w-full border rounded-xl px-3 py-2 text-sm"
+                value={intervalDays}
+                onChange={(e) => setIntervalDays(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Sites (one inspection per site)
+            </label>
+            <div className="border rounded-xl p-2 max-h-40 overflow-auto space-y-1">
+              {sites.length === 0 && (
+                <div className="text-xs text-gray-400">No sites yet.</div>
+              )}
+              {sites.map((s) => (
+                <label
+                  key={s.id}
+                  className="flex items-center gap-2 text-xs text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={siteIds.includes(s.id)}
+                    onChange={() => setSiteIds((prev) => toggleIn(prev, s.id))}
+                  />
+                  {s.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Assignees
+            </label>
+            <div className="border rounded-xl p-2 max-h-40 overflow-auto space-y-1">
+              {users.map((u) => (
+                <label
+                  key={u.user_id}
+                  className="flex items-center gap-2 text-xs text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={assigneeIds.includes(u.user_id)}
+                    onChange={() =>
+                      setAssigneeIds((prev) => toggleIn(prev, u.user_id))
+                    }
+                  />
+                  {u.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="inline-flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+            />
+            Active
+          </label>
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-xl bg-royal-700 text-white text-sm hover:bg-royal-800"
+          >
+            {editingId ? "Save changes" : "Create schedule"}
+          </button>
+        </div>
+      </form>
+
+      {/* Schedule list */}
+      <div className="bg-white border rounded-2xl p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-sm text-gray-700">
+            All schedules
+          </h2>
+          {loading && (
+            <span className="text-xs text-gray-400">Loading schedules…</span>
+          )}
+        </div>
+
+        {schedules.length === 0 && !loading && (
+          <div className="text-sm text-gray-600">
+            No schedules yet. Create your first schedule above.
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {schedules.map((s) => {
+            const next = s.is_active ? nextOccurrence(s) : null;
+            return (
+              <div
+                key={s.id}
+                className="border rounded-xl px-3 py-2 text-sm flex justify-between items-center gap-3"
+              >
+                <div>
+                  <div className="font-semibold text-gray-800">
+                    {s.template_name}
+                    {!s.is_active && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-[10px] text-gray-500">
+                        Paused
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {describeFrequency(s)} at {s.due_time} •{" "}
+                    {siteNames(s.site_ids)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Assignees:{" "}
+                    {s.assignees.length
+                      ? s.assignees.map((a) => a.name).join(", ")
+                      : "—"}
+                    {next && <span> • Next due: {next}</span>}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => startEdit(s)}
+                    className="px-3 py-1 rounded-xl border text-xs hover:bg-gray-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(s)}
+                    className="px-3 py-1 rounded-xl border text-xs text-rose-600 hover:bg-rose-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,57 @@
 // src/pages/TemplateEditorPage.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/utils/supabaseClient";
+import type { VisibilityRule } from "@/utils/visibility";
+import {
+  loadTemplateVersions,
+  TemplateVersionRow,
+} from "@/utils/templateVersions";
+import {
+  applyReviewAction,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  statusOf,
+  TemplateStatus,
+} from "@/utils/templateReviews";
+import {
+  loadTemplateSiteMap,
+  saveTemplateSites,
+  siteIdsFor,
+} from "@/utils/templateSites";
+import {
+  colorStyle,
+  loadResponseSets,
+  ResponseSet,
+} from "@/utils/responseSets";
+import {
+  applyLibraryFields,
+  LibraryQuestion,
+  saveLibraryQuestion,
+} from "@/utils/questionLibrary";
+import {
+  hasErrors,
+  issuesFor,
+  summariseIssues,
+  validateTemplate,
+  ValidationIssue,
+} from "@/utils/templateValidation";
+import VisibilityRuleEditor, {
+  RuleCandidate,
+} from "@/components/VisibilityRuleEditor";
+import QuestionLibraryModal from "@/components/QuestionLibraryModal";
+import MarkdownText from "@/components/MarkdownText";
+import { isValidPattern } from "@/utils/barcode";
+import { loadTemplateCategories, parseTags } from "@/utils/templateSearch";
+import {
+  BASE_LANGUAGE,
+  cleanTranslations,
+  languageLabel,
+  LANGUAGES,
+  QuestionTranslation,
+  SectionTranslation,
+} from "@/utils/translations";
+import { randomId } from "@/utils/ids";
 
 type Role = "admin" | "manager" | "inspector" | string | null;
 
@@ -10,16 +60,35 @@ type QuestionType =
   | "good_fair_poor"
   | "multiple_choice"
   | "text"
-  | "signature";
+  | "signature"
+  | "number"
+  | "response_set"
+  | "scan"
+  | "location";
 
 type TemplateQuestion = {
   id: string;
   label: string;
   type: QuestionType;
   options?: string[];
+  // number (measurement) questions only
+  unit?: string;
+  min?: number | null; // acceptable range, inclusive
+  max?: number | null;
+  decimals?: number | null;
+  response_set?: ResponseSet | null; // snapshot of the chosen set
+  expected_pattern?: string; // scan only: regex the decoded value should match
+  weight?: number; // scoring weight, default 1
+  optionScores?: Record<string, number>; // multiple_choice option -> points
+  critical?: boolean; // a negative answer fails the whole inspection
   allowNotes: boolean;
   allowPhoto: boolean;
   required: boolean;
+  visibility?: VisibilityRule | null; // only shown when the rule matches
+  library_id?: string | null; // linked copy of a question_library row
+  guidance?: string; // markdown help text for inspectors
+  reference_images?: string[]; // data URLs showing what "good" looks like
+  translations?: Record<string, QuestionTranslation>; // per language code
 };
 
 type TemplateSection = {
@@ -27,13 +96,34 @@ type TemplateSection = {
   title: string;
   is_title?: boolean; // true = title-only block (no questions)
   image_data_url?: string | null;
+  visibility?: VisibilityRule | null;
+  weight?: number; // section weight in the overall score, default 1
+  repeatable?: boolean; // inspector can add the section once per asset
+  instance_label?: string; // e.g. "Extinguisher" -> "Extinguisher #2"
   questions: TemplateQuestion[];
+  translations?: Record<string, SectionTranslation>;
 };
 
 type TemplateDefinition = {
   sections: TemplateSection[];
+  languages?: string[]; // extra languages besides English
+  scoring?: {
+    pass_threshold?: number | null; // overall % needed to pass
+  };
+  pdf?: {
+    guidance_appendix?: boolean; // add question guidance after the answers
+  };
 };
 
+// Question types that contribute to the score
+const SCORED_TYPES: QuestionType[] = [
+  "yes_no_na",
+  "good_fair_poor",
+  "multiple_choice",
+  "number",
+  "response_set",
+];
+
 type SiteRow = {
   id: string;
   name: string;
@@ -45,8 +135,71 @@ type Props = {
   mode: Mode;
 };
 
-function randomId(prefix: string) {
-  return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+// Empty input -> null, otherwise a finite number (or null if unparsable)
+function parseOptionalNumber(text: string): number | null {
+  if (text.trim() === "") return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Backwards compatibility: fill in defaults for older definitions
+function sectionsFromDefinition(
+  def: TemplateDefinition | null | undefined
+): TemplateSection[] {
+  return (def?.sections || []).map((s: any) => ({
+    id: s.id || randomId("sec"),
+    title: s.title || "",
+    is_title: s.is_title || false,
+    image_data_url: s.image_data_url || null,
+    visibility: s.visibility || null,
+    weight: typeof s.weight === "number" ? s.weight : 1,
+    repeatable: !!s.repeatable,
+    instance_label: s.instance_label || "",
+    translations: s.translations || {},
+    questions: (s.questions || []).map((q: any) => ({
+      id: q.id || randomId("q"),
+      label: q.label || "",
+      type: q.type || "yes_no_na",
+      options: q.options || [],
+      unit: q.unit || "",
+      min: typeof q.min === "number" ? q.min : null,
+      max: typeof q.max === "number" ? q.max : null,
+      decimals: typeof q.decimals === "number" ? q.decimals : null,
+      response_set: q.response_set || null,
+      expected_pattern: q.expected_pattern || "",
+      weight: typeof q.weight === "number" ? q.weight : 1,
+      optionScores: q.optionScores || {},
+      critical: !!q.critical,
+      allowNotes: typeof q.allowNotes === "boolean" ? q.allowNotes : true,
+      allowPhoto: typeof q.allowPhoto === "boolean" ? q.allowPhoto : true,
+      required: typeof q.required === "boolean" ? q.required : false,
+      visibility: q.visibility || null,
+      library_id: q.library_id || null,
+      guidance: q.guidance || "",
+      reference_images: q.reference_images || [],
+      translations: q.translations || {},
+    })),
+  }));
+}
+
+// What is being dragged in the editor (ids are kept when moving)
+type DragItem =
+  | { kind: "section"; sectionId: string }
+  | { kind: "question"; sectionId: string; questionId: string };
+
+// Copy of the list with the item at `from` moved to index `to`
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+}
+
+// Drop half-built conditions so saved rules are always evaluable
+function cleanRule(rule: VisibilityRule | null | undefined) {
+  if (!rule) return null;
+  const conditions = (rule.conditions || []).filter((c) => !!c.question_id);
+  return conditions.length ? { match: rule.match || "all", conditions } : null;
 }
 
 export default function TemplateEditorPage({ mode }: Props) {
@@ -63,10 +216,48 @@ export default function TemplateEditorPage({ mode }: Props) {
   // Template form state
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
-  const [siteId, setSiteId] = useState<string | null>(null);
-  const [isPublished, setIsPublished] = useState(false);
+  const [siteIds, setSiteIds] = useState<string[]>([]); // empty = all sites
+  const [category, setCategory] = useState("");
+  const [tagsText, setTagsText] = useState(""); // comma-separated
+  const [knownCategories, setKnownCategories] = useState<string[]>([]);
+  const [status, setStatus] = useState<TemplateStatus>("draft");
   const [logoDataUrl, setLogoDataUrl] = useState<string | null>(null);
+  const [passThreshold, setPassThreshold] = useState<number | null>(null);
+  const [guidanceAppendix, setGuidanceAppendix] = useState(false);
+  const [languages, setLanguages] = useState<string[]>([]); // besides English
+  const [translationLang, setTranslationLang] = useState<string | null>(null);
   const [sections, setSections] = useState<TemplateSection[]>([]);
+  const [responseSets, setResponseSets] = useState<ResponseSet[]>([]);
+  const [logicOpenIds, setLogicOpenIds] = useState<string[]>([]);
+  const [guidanceOpenIds, setGuidanceOpenIds] = useState<string[]>([]);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [libraryTargetSectionId, setLibraryTargetSectionId] = useState<
+    string | null
+  >(null);
+  const [libraryBusyId, setLibraryBusyId] = useState<string | null>(null);
+
+  // Live validation; errors block publishing
+  const issues = useMemo(
+    () => validateTemplate({ sections, languages }),
+    [sections, languages]
+  );
+  const errorCount = issues.filter((i) => i.level === "error").length;
+  const warningCount = issues.length - errorCount;
+
+  // Published versions (edit mode)
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [versions, setVersions] = useState<TemplateVersionRow[]>([]);
+
+  const refreshVersions = async (templateId: string) => {
+    try {
+      setVersions(await loadTemplateVersions(templateId));
+    } catch (e) {
+      // History is informational only; the editor still works without it
+      console.error("loadTemplateVersions error", e);
+      setVersions([]);
+    }
+  };
 
   // --------------------------
   // Load role + sites + existing template (for edit mode)
@@ -118,6 +309,22 @@ export default function TemplateEditorPage({ mode }: Props) {
           }))
         );
 
+        // Response sets are optional; the editor works without them
+        try {
+          setResponseSets(await loadResponseSets());
+        } catch (rsErr) {
+          console.error("loadResponseSets error", rsErr);
+          setResponseSets([]);
+        }
+
+        // Existing categories are only suggestions
+        try {
+          setKnownCategories(await loadTemplateCategories());
+        } catch (catErr) {
+          console.error("loadTemplateCategories error", catErr);
+          setKnownCategories([]);
+        }
+
         // 3) If edit mode, load existing template
         if (mode === "edit") {
           if (!id) {
@@ -129,7 +336,7 @@ export default function TemplateEditorPage({ mode }: Props) {
           const { data: tpl, error: tplErr } = await supabase
             .from("templates")
             .select(
-              "id, name, description, site_id, is_published, logo_data_url, definition"
+              "id, name, description, site_id, status, is_published, logo_data_url, definition, current_version, category, tags"
             )
             .eq("id", id)
             .single();
@@ -146,44 +353,45 @@ export default function TemplateEditorPage({ mode }: Props) {
 
           setName(tpl.name || "");
           setDescription(tpl.description || "");
-          setSiteId(tpl.site_id || null);
-          setIsPublished(!!tpl.is_published);
+          setCategory(tpl.category || "");
+          setTagsText((tpl.tags || []).join(", "));
+          const siteMap = await loadTemplateSiteMap([id]);
+          setSiteIds(siteIdsFor(siteMap, id, tpl.site_id || null));
+          setStatus(statusOf(tpl));
           setLogoDataUrl(tpl.logo_data_url || null);
 
           const def = (tpl.definition as TemplateDefinition) || {
             sections: [],
           };
 
-          // Backwards compatibility: ensure sections array
-          const loadedSections: TemplateSection[] = (def.sections || []).map(
-            (s: any) => ({
-              id: s.id || randomId("sec"),
-              title: s.title || "",
-              is_title: s.is_title || false,
-              image_data_url: s.image_data_url || null,
-              questions: (s.questions || []).map((q: any) => ({
-                id: q.id || randomId("q"),
-                label: q.label || "",
-                type: q.type || "yes_no_na",
-                options: q.options || [],
-                allowNotes:
-                  typeof q.allowNotes === "boolean" ? q.allowNotes : true,
-                allowPhoto:
-                  typeof q.allowPhoto === "boolean" ? q.allowPhoto : true,
-                required:
-                  typeof q.required === "boolean" ? q.required : false,
-              })),
-            })
+          setSections(sectionsFromDefinition(def));
+          setPassThreshold(
+            typeof def.scoring?.pass_threshold === "number"
+              ? def.scoring.pass_threshold
+              : null
           );
-
-          setSections(loadedSections);
+          setGuidanceAppendix(!!def.pdf?.guidance_appendix);
+          setLanguages(
+            (def.languages || []).filter((l) => l !== BASE_LANGUAGE)
+          );
+          setCurrentVersion(
+            typeof tpl.current_version === "number"
+              ? tpl.current_version
+              : null
+          );
+          await refreshVersions(id);
         } else {
           // fresh create mode: one starter section
           setName("New template");
           setDescription("");
-          setSiteId(null);
-          setIsPublished(false);
+          setCategory("");
+          setTagsText("");
+          setSiteIds([]);
+          setStatus("draft");
           setLogoDataUrl(null);
+          setPassThreshold(null);
+          setGuidanceAppendix(false);
+          setLanguages([]);
           setSections([
             {
               id: randomId("sec"),
@@ -216,6 +424,7 @@ export default function TemplateEditorPage({ mode }: Props) {
   }, [mode, id]);
 
   const canEdit = role === "admin" || role === "manager";
+  const isAdmin = role === "admin";
 
   // --------------------------
   // Mutators
@@ -315,6 +524,62 @@ export default function TemplateEditorPage({ mode }: Props) {
     );
   };
 
+  const updateSectionTranslation = (
+    sectionId: string,
+    lang: string,
+    patch: SectionTranslation
+  ) => {
+    setSections((prev) =>
+      prev.map((s) =>
+        s.id === sectionId
+          ? {
+              ...s,
+              translations: {
+                ...(s.translations || {}),
+                [lang]: { ...(s.translations?.[lang] || {}), ...patch },
+              },
+            }
+          : s
+      )
+    );
+  };
+
+  const updateQuestionTranslation = (
+    sectionId: string,
+    questionId: string,
+    lang: string,
+    patch: QuestionTranslation
+  ) => {
+    setSections((prev) =>
+      prev.map((s) =>
+        s.id === sectionId
+          ? {
+              ...s,
+              questions: s.questions.map((q) =>
+                q.id === questionId
+                  ? {
+                      ...q,
+                      translations: {
+                        ...(q.translations || {}),
+                        [lang]: { ...(q.translations?.[lang] || {}), ...patch },
+                      },
+                    }
+                  : q
+              ),
+            }
+          : s
+      )
+    );
+  };
+
+  const toggleLanguage = (code: string) => {
+    const enabled = languages.includes(code);
+    setLanguages((prev) =>
+      enabled ? prev.filter((l) => l !== code) : [...prev, code]
+    );
+    if (enabled && translationLang === code) setTranslationLang(null);
+  };
+
   const removeQuestion = (sectionId: string, questionId: string) => {
     setSections((prev) =>
       prev.map((s) =>
@@ -328,6 +593,285 @@ export default function TemplateEditorPage({ mode }: Props) {
     );
   };
 
+  // --------------------------
+  // Reordering (drag & drop, arrow buttons, keyboard)
+  // --------------------------
+  const moveSection = (sectionId: string, toIndex: number) => {
+    setSections((prev) => {
+      const from = prev.findIndex((s) => s.id === sectionId);
+      if (from === -1 || from === toIndex) return prev;
+      return moveItem(prev, from, toIndex);
+    });
+  };
+
+  const moveSectionBy = (sectionId: string, delta: -1 | 1) => {
+    const from = sections.findIndex((s) => s.id === sectionId);
+    const to = from + delta;
+    if (from === -1 || to < 0 || to >= sections.length) return;
+    moveSection(sectionId, to);
+  };
+
+  const moveQuestion = (
+    fromSectionId: string,
+    questionId: string,
+    toSectionId: string,
+    toIndex: number
+  ) => {
+    setSections((prev) => {
+      const source = prev.find((s) => s.id === fromSectionId);
+      const question = source?.questions.find((q) => q.id === questionId);
+      if (!source || !question) return prev;
+
+      if (fromSectionId === toSectionId) {
+        const from = source.questions.findIndex((q) => q.id === questionId);
+        return prev.map((s) =>
+          s.id === fromSectionId
+            ? { ...s, questions: moveItem(s.questions, from, toIndex) }
+            : s
+        );
+      }
+
+      return prev.map((s) => {
+        if (s.id === fromSectionId) {
+          return {
+            ...s,
+            questions: s.questions.filter((q) => q.id !== questionId),
+          };
+        }
+        if (s.id === toSectionId) {
+          const questions = [...s.questions];
+          questions.splice(Math.min(toIndex, questions.length), 0, question);
+          return { ...s, questions };
+        }
+        return s;
+      });
+    });
+  };
+
+  // Moving past the first/last question continues into the next section
+  const moveQuestionBy = (
+    sectionId: string,
+    questionId: string,
+    delta: -1 | 1
+  ) => {
+    const sIndex = sections.findIndex((s) => s.id === sectionId);
+    const section = sections[sIndex];
+    if (!section) return;
+
+    const target =
+      section.questions.findIndex((q) => q.id === questionId) + delta;
+    if (target >= 0 && target < section.questions.length) {
+      moveQuestion(sectionId, questionId, sectionId, target);
+      return;
+    }
+
+    for (let i = sIndex + delta; i >= 0 && i < sections.length; i += delta) {
+      const next = sections[i];
+      if (next.is_title) continue;
+      moveQuestion(
+        sectionId,
+        questionId,
+        next.id,
+        delta < 0 ? next.questions.length : 0
+      );
+      return;
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, item: DragItem) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = "move";
+    // Firefox won't start a drag without some data
+    e.dataTransfer.setData(
+      "text/plain",
+      item.kind === "section" ? item.sectionId : item.questionId
+    );
+    setDragItem(item);
+  };
+
+  const handleDragEnd = () => {
+    setDragItem(null);
+    setDropTargetId(null);
+  };
+
+  // Dropping on a block reorders sections, or appends a dragged question
+  const handleBlockDragOver = (e: React.DragEvent, section: TemplateSection) => {
+    if (!dragItem) return;
+    if (dragItem.kind === "question" && section.is_title) return;
+    e.preventDefault();
+    setDropTargetId(section.id);
+  };
+
+  const handleBlockDrop = (
+    e: React.DragEvent,
+    section: TemplateSection,
+    index: number
+  ) => {
+    if (!dragItem) return;
+    e.preventDefault();
+    if (dragItem.kind === "section") {
+      moveSection(dragItem.sectionId, index);
+    } else if (!section.is_title) {
+      moveQuestion(
+        dragItem.sectionId,
+        dragItem.questionId,
+        section.id,
+        section.questions.length
+      );
+    }
+    handleDragEnd();
+  };
+
+  const handleQuestionDragOver = (e: React.DragEvent, questionId: string) => {
+    if (dragItem?.kind !== "question") return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetId(questionId);
+  };
+
+  const handleQuestionDrop = (
+    e: React.DragEvent,
+    sectionId: string,
+    index: number
+  ) => {
+    if (dragItem?.kind !== "question") return;
+    e.preventDefault();
+    e.stopPropagation();
+    moveQuestion(dragItem.sectionId, dragItem.questionId, sectionId, index);
+    handleDragEnd();
+  };
+
+  // --------------------------
+  // Question library
+  // --------------------------
+  const handleInsertFromLibrary = (lib: LibraryQuestion) => {
+    const sectionId = libraryTargetSectionId;
+    if (!sectionId) return;
+    const base: TemplateQuestion = {
+      id: randomId("q"),
+      label: "",
+      type: "yes_no_na",
+      options: [],
+      allowNotes: true,
+      allowPhoto: true,
+      required: false,
+    };
+    setSections((prev) =>
+      prev.map((s) =>
+        s.id === sectionId
+          ? {
+              ...s,
+              questions: [...s.questions, applyLibraryFields(base, lib)],
+            }
+          : s
+      )
+    );
+    setLibraryTargetSectionId(null);
+  };
+
+  // Keep open copies in step after a library question is pushed out
+  const applyLibraryUpdateLocally = (lib: LibraryQuestion) => {
+    setSections((prev) =>
+      prev.map((s) => ({
+        ...s,
+        questions: s.questions.map((q) =>
+          q.library_id === lib.id ? applyLibraryFields(q, lib) : q
+        ),
+      }))
+    );
+  };
+
+  const handleSaveToLibrary = async (
+    sectionId: string,
+    q: TemplateQuestion
+  ) => {
+    if (!q.label.trim()) {
+      alert("Give the question a label before saving it to the library.");
+      return;
+    }
+    if (
+      q.library_id &&
+      !window.confirm("Update the library question with these changes?")
+    ) {
+      return;
+    }
+
+    setLibraryBusyId(q.id);
+    try {
+      const lib = await saveLibraryQuestion(q, q.library_id || null);
+      updateQuestion(sectionId, q.id, { library_id: lib.id });
+      alert(
+        q.library_id
+          ? 'Library question updated. Use "Push to templates" in the library to update other templates.'
+          : "Question saved to the library."
+      );
+    } catch (e: any) {
+      console.error("saveLibraryQuestion error", e);
+      alert(e?.message || "Could not save to the library.");
+    } finally {
+      setLibraryBusyId(null);
+    }
+  };
+
+  const handleLoadVersion = (v: TemplateVersionRow) => {
+    if (
+      !window.confirm(
+        `Replace the sections in the editor with version ${v.version}? Nothing is saved until you click "Save template".`
+      )
+    ) {
+      return;
+    }
+    setSections(sectionsFromDefinition(v.definition));
+    setLanguages(
+      (v.definition?.languages || []).filter((l) => l !== BASE_LANGUAGE)
+    );
+  };
+
+  const toggleLogicOpen = (blockId: string) => {
+    setLogicOpenIds((prev) =>
+      prev.includes(blockId)
+        ? prev.filter((x) => x !== blockId)
+        : [...prev, blockId]
+    );
+  };
+
+  const toggleGuidanceOpen = (questionId: string) => {
+    setGuidanceOpenIds((prev) =>
+      prev.includes(questionId)
+        ? prev.filter((x) => x !== questionId)
+        : [...prev, questionId]
+    );
+  };
+
+  // Questions a rule may depend on (never the item itself)
+  const ruleCandidatesFor = (
+    excludeSectionId: string | null,
+    excludeQuestionId: string | null
+  ): RuleCandidate[] => {
+    const list: RuleCandidate[] = [];
+    for (const s of sections) {
+      if (s.is_title || s.id === excludeSectionId) continue;
+      for (const q of s.questions) {
+        if (q.id === excludeQuestionId) continue;
+        list.push({
+          id: q.id,
+          label: q.label,
+          section_title: s.title,
+          type: q.type,
+          options: q.options,
+          choices:
+            q.type === "response_set"
+              ? (q.response_set?.options || []).map((o) => ({
+                  key: o.key,
+                  label: o.label,
+                }))
+              : undefined,
+        });
+      }
+    }
+    return list;
+  };
+
   const handleSectionImage = (sectionId: string, file: File | null) => {
     if (!file) return;
     const reader = new FileReader();
@@ -338,6 +882,41 @@ export default function TemplateEditorPage({ mode }: Props) {
     reader.readAsDataURL(file);
   };
 
+  // Appends reference images to a question's guidance
+  const handleReferenceImages = (
+    sectionId: string,
+    questionId: string,
+    files: FileList | null
+  ) => {
+    for (const file of Array.from(files || [])) {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const url = String(reader.result);
+        setSections((prev) =>
+          prev.map((s) =>
+            s.id === sectionId
+              ? {
+                  ...s,
+                  questions: s.questions.map((q) =>
+                    q.id === questionId
+                      ? {
+                          ...q,
+                          reference_images: [
+                            ...(q.reference_images || []),
+                            url,
+                          ],
+                        }
+                      : q
+                  ),
+                }
+              : s
+          )
+        );
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
   const handleLogoChange = (file: File | null) => {
     if (!file) {
       setLogoDataUrl(null);
@@ -353,7 +932,9 @@ export default function TemplateEditorPage({ mode }: Props) {
   // --------------------------
   // Save template
   // --------------------------
-  const handleSave = async () => {
+  // Saving always stores a draft; submit sends it for review (admins
+  // approve their own straight away). The published version stays live.
+  const handleSave = async (submit: boolean) => {
     if (!canEdit) {
       alert("You are not authorised to save templates.");
       return;
@@ -364,40 +945,119 @@ export default function TemplateEditorPage({ mode }: Props) {
       return;
     }
 
+    const missingSet = sections
+      .flatMap((s) => s.questions)
+      .find(
+        (q) => q.type === "response_set" && !q.response_set?.options?.length
+      );
+    if (missingSet) {
+      alert(
+        `Choose a response set for "${missingSet.label || "Untitled question"}".`
+      );
+      return;
+    }
+
     // Build definition, trimming labels and options
     const cleanedSections: TemplateSection[] = sections.map((s) => ({
       ...s,
       title: s.title || "",
+      visibility: s.is_title ? null : cleanRule(s.visibility),
+      weight: typeof s.weight === "number" && s.weight >= 0 ? s.weight : 1,
+      repeatable: s.is_title ? false : !!s.repeatable,
+      instance_label:
+        !s.is_title && s.repeatable ? (s.instance_label || "").trim() : "",
+      translations: cleanTranslations(s.translations, languages),
       questions: s.is_title
         ? [] // title-only blocks have no questions
         : s.questions.map((q) => ({
             ...q,
             label: q.label || "",
+            visibility: cleanRule(q.visibility),
+            weight: typeof q.weight === "number" && q.weight >= 0 ? q.weight : 1,
+            optionScores:
+              q.type === "multiple_choice"
+                ? Object.fromEntries(
+                    Object.entries(q.optionScores || {}).filter(
+                      ([opt, v]) =>
+                        (q.options || []).includes(opt) &&
+                        typeof v === "number"
+                    )
+                  )
+                : {},
+            critical: SCORED_TYPES.includes(q.type) ? !!q.critical : false,
             options:
               q.type === "multiple_choice"
                 ? (q.options || [])
                     .map((o) => o.trim())
                     .filter(Boolean)
                 : [],
+            response_set:
+              q.type === "response_set" ? q.response_set || null : null,
+            expected_pattern:
+              q.type === "scan" ? (q.expected_pattern || "").trim() : "",
+            guidance: (q.guidance || "").trim(),
+            reference_images: q.reference_images || [],
+            translations: cleanTranslations(
+              q.type === "multiple_choice"
+                ? q.translations
+                : Object.fromEntries(
+                    Object.entries(q.translations || {}).map(([lang, t]) => [
+                      lang,
+                      { ...t, options: undefined },
+                    ])
+                  ),
+              languages
+            ),
+            ...(q.type === "number"
+              ? {
+                  unit: (q.unit || "").trim(),
+                  min: q.min ?? null,
+                  max: q.max ?? null,
+                  decimals: q.decimals ?? null,
+                }
+              : {}),
           })),
     }));
 
     const definition: TemplateDefinition = {
       sections: cleanedSections,
+      languages,
+      scoring: { pass_threshold: passThreshold },
+      pdf: { guidance_appendix: guidanceAppendix },
     };
 
+    const saveIssues = validateTemplate(definition);
+    if (submit && hasErrors(saveIssues)) {
+      alert(
+        "Fix these problems before submitting (or save it as a draft):\n\n" +
+          summariseIssues(saveIssues.filter((i) => i.level === "error"))
+      );
+      return;
+    }
+
+    let reviewComment: string | null = null;
+    if (submit && !isAdmin) {
+      reviewComment = prompt("Notes for the reviewer (optional):", "");
+      if (reviewComment === null) return;
+    }
+
     setSaving(true);
     setError(null);
 
     try {
+      let templateId: string | null = null;
+
       if (mode === "edit" && id) {
+        templateId = id;
         const { error } = await supabase
           .from("templates")
           .update({
             name: name.trim(),
             description: description.trim() || null,
-            site_id: siteId || null,
-            is_published: isPublished,
+            category: category.trim() || null,
+            tags: parseTags(tagsText),
+            site_id: siteIds.length === 1 ? siteIds[0] : null,
+            status: "draft",
             logo_data_url: logoDataUrl,
             definition,
           })
@@ -405,19 +1065,44 @@ export default function TemplateEditorPage({ mode }: Props) {
 
         if (error) throw error;
       } else {
-        const { error } = await supabase.from("templates").insert({
-          name: name.trim(),
-          description: description.trim() || null,
-          site_id: siteId || null,
-          is_published: isPublished,
-          logo_data_url: logoDataUrl,
-          definition,
-        });
+        const { data: created, error } = await supabase
+          .from("templates")
+          .insert({
+            name: name.trim(),
+            description: description.trim() || null,
+            category: category.trim() || null,
+            tags: parseTags(tagsText),
+            site_id: siteIds.length === 1 ? siteIds[0] : null,
+            status: "draft",
+            is_published: false,
+            logo_data_url: logoDataUrl,
+            definition,
+          })
+          .select("id")
+          .single();
 
         if (error) throw error;
+        templateId = created?.id || null;
+      }
+
+      if (templateId) {
+        await saveTemplateSites(templateId, siteIds);
       }
 
-      alert("Template saved.");
+      if (submit && templateId) {
+        await applyReviewAction(
+          templateId,
+          isAdmin ? "approved" : "submitted",
+          reviewComment
+        );
+        alert(isAdmin ? "Template published." : "Template sent for review.");
+      } else {
+        alert(
+          currentVersion !== null
+            ? `Draft saved. v${currentVersion} stays live until the changes are approved.`
+            : "Draft saved."
+        );
+      }
       navigate("/templates");
     } catch (e: any) {
       console.error("handleSave error", e);
@@ -427,6 +1112,65 @@ export default function TemplateEditorPage({ mode }: Props) {
     }
   };
 
+  // Inline error / warning lines next to a section or question
+  const renderIssues = (list: ValidationIssue[]) =>
+    list.length > 0 && (
+      <ul className="space-y-0.5 text-[11px]">
+        {list.map((issue, i) => (
+          <li
+            key={i}
+            className={
+              issue.level === "error" ? "text-rose-600" : "text-amber-700"
+            }
+          >
+            {issue.level === "error" ? "⚠ " : "• "}
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    );
+
+  // Grip (drag or arrow keys) plus up/down buttons for a block or question
+  const renderMoveControls = (
+    item: DragItem,
+    onMove: (delta: -1 | 1) => void
+  ) => (
+    <div className="flex items-center gap-0.5 text-[11px] text-gray-400 flex-shrink-0">
+      <span
+        draggable
+        role="button"
+        tabIndex={0}
+        aria-label="Reorder: drag, or press the up/down arrow keys"
+        title="Drag to reorder (or focus and use ↑ / ↓)"
+        onDragStart={(e) => handleDragStart(e, item)}
+        onDragEnd={handleDragEnd}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+            e.preventDefault();
+            onMove(e.key === "ArrowUp" ? -1 : 1);
+          }
+        }}
+        className="px-1 cursor-grab select-none rounded-md hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-300"
+      >
+        ⠿
+      </span>
+      <button
+        onClick={() => onMove(-1)}
+        title="Move up"
+        className="px-1 rounded-md hover:text-gray-700 hover:bg-gray-100"
+      >
+        ↑
+      </button>
+      <button
+        onClick={() => onMove(1)}
+        title="Move down"
+        className="px-1 rounded-md hover:text-gray-700 hover:bg-gray-100"
+      >
+        ↓
+      </button>
+    </div>
+  );
+
   // --------------------------
   // Render
   // --------------------------
@@ -479,11 +1223,18 @@ export default function TemplateEditorPage({ mode }: Props) {
             Cancel
           </button>
           <button
-            onClick={handleSave}
+            onClick={() => handleSave(false)}
+            disabled={saving}
+            className="px-3 py-2 rounded-xl border text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save draft"}
+          </button>
+          <button
+            onClick={() => handleSave(true)}
             disabled={saving}
             className="px-3 py-2 rounded-xl bg-purple-700 text-white text-sm hover:bg-purple-800 disabled:opacity-50"
           >
-            {saving ? "Saving…" : "Save template"}
+            {isAdmin ? "Save & publish" : "Save & submit for review"}
           </button>
         </div>
       </div>
@@ -520,33 +1271,153 @@ export default function TemplateEditorPage({ mode }: Props) {
                 placeholder="Short description (optional)…"
               />
             </div>
+            <div className="grid md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Category
+                </label>
+                <input
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  list="template-categories"
+                  className="w-full border rounded-xl px-3 py-2 text-sm"
+                  placeholder="E.g. Fire safety"
+                />
+                <datalist id="template-categories">
+                  {knownCategories.map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Tags (comma-separated)
+                </label>
+                <input
+                  value={tagsText}
+                  onChange={(e) => setTagsText(e.target.value)}
+                  onBlur={() => setTagsText(parseTags(tagsText).join(", "))}
+                  className="w-full border rounded-xl px-3 py-2 text-sm"
+                  placeholder="E.g. haccp, monthly, kitchen"
+                />
+              </div>
+            </div>
             <div className="flex flex-wrap gap-4 items-center">
               <div>
                 <label className="block text-xs text-gray-500 mb-1">
-                  Site
+                  Sites
                 </label>
-                <select
-                  value={siteId || ""}
-                  onChange={(e) => setSiteId(e.target.value || null)}
-                  className="border rounded-xl px-3 py-2 text-sm"
-                >
-                  <option value="">All sites</option>
+                <div className="border rounded-xl px-3 py-2 max-h-32 overflow-auto space-y-1 min-w-[220px]">
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={siteIds.length === 0}
+                      onChange={() => setSiteIds([])}
+                    />
+                    All sites
+                  </label>
                   {sites.map((s) => (
-                    <option key={s.id} value={s.id}>
+                    <label
+                      key={s.id}
+                      className="flex items-center gap-2 text-xs text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={siteIds.includes(s.id)}
+                        onChange={() =>
+                          setSiteIds((prev) =>
+                            prev.includes(s.id)
+                              ? prev.filter((x) => x !== s.id)
+                              : [...prev, s.id]
+                          )
+                        }
+                      />
                       {s.name}
-                    </option>
+                    </label>
                   ))}
-                </select>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-xs mt-4">
+                <span className="text-gray-500">Status:</span>
+                <span
+                  className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] ${STATUS_STYLES[status]}`}
+                >
+                  {STATUS_LABELS[status]}
+                </span>
+                {currentVersion !== null && status !== "retired" && (
+                  <span className="text-[11px] text-gray-400">
+                    Inspections use v{currentVersion}
+                  </span>
+                )}
               </div>
-              <label className="inline-flex items-center gap-2 text-xs mt-4">
+              {errorCount > 0 && (
+                <p className="text-[11px] text-rose-600">
+                  Fix the {errorCount} error(s) below before submitting.
+                </p>
+              )}
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Pass mark (%)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={passThreshold ?? ""}
+                  onChange={(e) => {
+                    const n = parseOptionalNumber(e.target.value);
+                    setPassThreshold(
+                      n === null ? null : Math.min(100, Math.max(0, n))
+                    );
+                  }}
+                  className="w-24 border rounded-xl px-3 py-2 text-sm"
+                  placeholder="None"
+                />
+              </div>
+              <label className="inline-flex items-center gap-2 text-xs">
                 <input
                   type="checkbox"
-                  checked={isPublished}
-                  onChange={(e) => setIsPublished(e.target.checked)}
+                  checked={guidanceAppendix}
+                  onChange={(e) => setGuidanceAppendix(e.target.checked)}
                 />
-                <span>Published (visible for inspections)</span>
+                <span>Include question guidance as a PDF appendix</span>
               </label>
             </div>
+            <div className="flex flex-wrap gap-4 items-center border-t pt-3">
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="text-gray-500">Languages:</span>
+                {LANGUAGES.map((l) => (
+                  <label key={l.code} className="inline-flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={
+                        l.code === BASE_LANGUAGE || languages.includes(l.code)
+                      }
+                      disabled={l.code === BASE_LANGUAGE}
+                      onChange={() => toggleLanguage(l.code)}
+                    />
+                    <span>{l.label}</span>
+                  </label>
+                ))}
+              </div>
+              {languages.length > 0 && (
+                <label className="inline-flex items-center gap-2 text-xs">
+                  <span className="text-gray-500">Edit translations:</span>
+                  <select
+                    value={translationLang || ""}
+                    onChange={(e) => setTranslationLang(e.target.value || null)}
+                    className="border rounded-xl px-2 py-1 text-xs"
+                  >
+                    <option value="">Hidden</option>
+                    {languages.map((code) => (
+                      <option key={code} value={code}>
+                        {languageLabel(code)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
           </div>
         </div>
 
@@ -592,6 +1463,55 @@ export default function TemplateEditorPage({ mode }: Props) {
               />
             </label>
           </div>
+
+          {mode === "edit" && (
+            <div className="rounded-2xl border bg-white p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-xs font-semibold text-gray-700">
+                  Version history
+                </div>
+                {currentVersion !== null && (
+                  <span className="text-[10px] text-gray-400">
+                    Live: v{currentVersion}
+                  </span>
+                )}
+              </div>
+              {versions.length === 0 ? (
+                <p className="text-[11px] text-gray-500">
+                  No published versions yet. Saving a published template
+                  creates a version that new inspections are pinned to.
+                </p>
+              ) : (
+                <div className="space-y-1 max-h-48 overflow-auto">
+                  {versions.map((v) => (
+                    <div
+                      key={v.id}
+                      className="flex items-center justify-between gap-2 border rounded-xl px-2 py-1 text-[11px]"
+                    >
+                      <div>
+                        <span className="font-semibold text-gray-800">
+                          v{v.version}
+                        </span>
+                        {v.version === currentVersion && (
+                          <span className="ml-1 text-emerald-600">(live)</span>
+                        )}
+                        <div className="text-[10px] text-gray-400">
+                          {new Date(v.created_at).toLocaleString()}
+                          {v.created_by_name && ` • ${v.created_by_name}`}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleLoadVersion(v)}
+                        className="text-purple-700 hover:underline flex-shrink-0"
+                      >
+                        Load
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -628,6 +1548,22 @@ export default function TemplateEditorPage({ mode }: Props) {
           </div>
         </div>
 
+        {issues.length > 0 && (
+          <div
+            className={`rounded-xl border p-3 text-xs space-y-1 ${
+              errorCount > 0
+                ? "border-rose-200 bg-rose-50 text-rose-700"
+                : "border-amber-200 bg-amber-50 text-amber-800"
+            }`}
+          >
+            <div className="font-semibold">
+              {errorCount} error(s), {warningCount} warning(s)
+              {errorCount > 0 && " – errors must be fixed before publishing."}
+            </div>
+            {renderIssues(issues.filter((i) => !i.section_id))}
+          </div>
+        )}
+
         {sections.length === 0 ? (
           <div className="rounded-2xl border bg-white p-4 text-xs text-gray-600">
             No sections yet. Add a title or section to start building your
@@ -643,9 +1579,23 @@ export default function TemplateEditorPage({ mode }: Props) {
                 return (
                   <div
                     key={section.id}
-                    className="rounded-2xl border bg-white p-3 space-y-2"
+                    onDragOver={(e) => handleBlockDragOver(e, section)}
+                    onDragLeave={() => setDropTargetId(null)}
+                    onDrop={(e) => handleBlockDrop(e, section, index)}
+                    className={`rounded-2xl border bg-white p-3 space-y-2 ${
+                      dropTargetId === section.id ? "ring-2 ring-purple-300" : ""
+                    } ${
+                      dragItem?.kind === "section" &&
+                      dragItem.sectionId === section.id
+                        ? "opacity-50"
+                        : ""
+                    }`}
                   >
                     <div className="bg-gradient-to-r from-purple-100 to-purple-50 border border-purple-200 rounded-xl px-3 py-2 flex items-center justify-between gap-3">
+                      {renderMoveControls(
+                        { kind: "section", sectionId: section.id },
+                        (delta) => moveSectionBy(section.id, delta)
+                      )}
                       <div className="flex-1 space-y-1">
                         <div className="flex items-center justify-between gap-2">
                           <span className="text-[10px] uppercase tracking-wide text-purple-500 font-semibold">
@@ -665,6 +1615,24 @@ export default function TemplateEditorPage({ mode }: Props) {
                           className="w-full bg-transparent border-none focus:outline-none focus:ring-0 text-sm font-semibold text-purple-900 placeholder:text-purple-400"
                           placeholder="e.g. Fire Safety Checks"
                         />
+                        {translationLang && (
+                          <input
+                            value={
+                              section.translations?.[translationLang]?.title ||
+                              ""
+                            }
+                            onChange={(e) =>
+                              updateSectionTranslation(
+                                section.id,
+                                translationLang,
+                                { title: e.target.value }
+                              )
+                            }
+                            className="w-full border border-purple-200 rounded-xl px-2 py-1 text-xs bg-white"
+                            placeholder={`${languageLabel(translationLang)}: ${section.title}`}
+                          />
+                        )}
+                        {renderIssues(issuesFor(issues, section.id))}
                       </div>
                       <button
                         onClick={() => removeSection(section.id)}
@@ -701,9 +1669,23 @@ export default function TemplateEditorPage({ mode }: Props) {
               return (
                 <div
                   key={section.id}
-                  className="rounded-2xl border bg-white p-4 space-y-3"
+                  onDragOver={(e) => handleBlockDragOver(e, section)}
+                  onDragLeave={() => setDropTargetId(null)}
+                  onDrop={(e) => handleBlockDrop(e, section, index)}
+                  className={`rounded-2xl border bg-white p-4 space-y-3 ${
+                    dropTargetId === section.id ? "ring-2 ring-purple-300" : ""
+                  } ${
+                    dragItem?.kind === "section" &&
+                    dragItem.sectionId === section.id
+                      ? "opacity-50"
+                      : ""
+                  }`}
                 >
                   <div className="flex items-start justify-between gap-3">
+                    {renderMoveControls(
+                      { kind: "section", sectionId: section.id },
+                      (delta) => moveSectionBy(section.id, delta)
+                    )}
                     <div className="flex-1 space-y-2">
                       <div>
                         <label className="block text-[11px] text-gray-500 mb-1">
@@ -719,6 +1701,24 @@ export default function TemplateEditorPage({ mode }: Props) {
                           className="w-full border rounded-xl px-3 py-2 text-sm"
                           placeholder="E.g. Housekeeping"
                         />
+                        {translationLang && (
+                          <input
+                            value={
+                              section.translations?.[translationLang]?.title ||
+                              ""
+                            }
+                            onChange={(e) =>
+                              updateSectionTranslation(
+                                section.id,
+                                translationLang,
+                                { title: e.target.value }
+                              )
+                            }
+                            className="mt-1 w-full border border-sky-200 bg-sky-50 rounded-xl px-3 py-1.5 text-xs"
+                            placeholder={`${languageLabel(translationLang)}: ${section.title}`}
+                          />
+                        )}
+                        {renderIssues(issuesFor(issues, section.id))}
                       </div>
                       <div className="flex items-center gap-3">
                         {section.image_data_url && (
@@ -746,7 +1746,86 @@ export default function TemplateEditorPage({ mode }: Props) {
                             }
                           />
                         </label>
+                        <button
+                          onClick={() => toggleLogicOpen(section.id)}
+                          className={`px-2 py-1 border rounded-xl text-[11px] hover:bg-gray-50 ${
+                            section.visibility?.conditions?.length
+                              ? "border-purple-300 text-purple-700 bg-purple-50"
+                              : "bg-white"
+                          }`}
+                        >
+                          {section.visibility?.conditions?.length
+                            ? "Conditional section"
+                            : "Add logic"}
+                        </button>
+                        <label className="inline-flex items-center gap-1 text-[11px] text-gray-500">
+                          <span>Section weight</span>
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={section.weight ?? 1}
+                            onChange={(e) =>
+                              updateSection(section.id, {
+                                weight: parseOptionalNumber(e.target.value) ?? 1,
+                              })
+                            }
+                            className="w-16 border rounded-xl px-2 py-1 text-[11px]"
+                          />
+                        </label>
+                        <label className="inline-flex items-center gap-1 text-[11px] text-gray-500">
+                          <input
+                            type="checkbox"
+                            checked={!!section.repeatable}
+                            onChange={(e) =>
+                              updateSection(section.id, {
+                                repeatable: e.target.checked,
+                              })
+                            }
+                          />
+                          <span>Repeatable</span>
+                        </label>
+                        {section.repeatable && (
+                          <input
+                            value={section.instance_label || ""}
+                            onChange={(e) =>
+                              updateSection(section.id, {
+                                instance_label: e.target.value,
+                              })
+                            }
+                            placeholder="Instance name (e.g. Extinguisher)"
+                            className="border rounded-xl px-2 py-1 text-[11px] w-48"
+                          />
+                        )}
+                        {section.repeatable && translationLang && (
+                          <input
+                            value={
+                              section.translations?.[translationLang]
+                                ?.instance_label || ""
+                            }
+                            onChange={(e) =>
+                              updateSectionTranslation(
+                                section.id,
+                                translationLang,
+                                { instance_label: e.target.value }
+                              )
+                            }
+                            placeholder={`${languageLabel(translationLang)}: ${section.instance_label || "instance name"}`}
+                            className="border border-sky-200 bg-sky-50 rounded-xl px-2 py-1 text-[11px] w-48"
+                          />
+                        )}
                       </div>
+                      {logicOpenIds.includes(section.id) && (
+                        <div className="border rounded-xl bg-gray-50 p-2">
+                          <VisibilityRuleEditor
+                            rule={section.visibility}
+                            candidates={ruleCandidatesFor(section.id, null)}
+                            onChange={(rule) =>
+                              updateSection(section.id, { visibility: rule })
+                            }
+                          />
+                        </div>
+                      )}
                     </div>
                     <button
                       onClick={() => removeSection(section.id)}
@@ -792,6 +1871,36 @@ export default function TemplateEditorPage({ mode }: Props) {
                     >
                       Text only
                     </button>
+                    <button
+                      onClick={() => addQuestion(section.id, "number")}
+                      className="px-2 py-0.5 border rounded-xl hover:bg-gray-50"
+                    >
+                      Number / reading
+                    </button>
+                    <button
+                      onClick={() => addQuestion(section.id, "response_set")}
+                      className="px-2 py-0.5 border rounded-xl hover:bg-gray-50"
+                    >
+                      Response set
+                    </button>
+                    <button
+                      onClick={() => addQuestion(section.id, "scan")}
+                      className="px-2 py-0.5 border rounded-xl hover:bg-gray-50"
+                    >
+                      Scan (QR / barcode)
+                    </button>
+                    <button
+                      onClick={() => addQuestion(section.id, "location")}
+                      className="px-2 py-0.5 border rounded-xl hover:bg-gray-50"
+                    >
+                      GPS location
+                    </button>
+                    <button
+                      onClick={() => setLibraryTargetSectionId(section.id)}
+                      className="px-2 py-0.5 border border-purple-200 rounded-xl text-purple-700 hover:bg-purple-50"
+                    >
+                      From library…
+                    </button>
                   </div>
 
                   <div className="space-y-2">
@@ -800,12 +1909,34 @@ export default function TemplateEditorPage({ mode }: Props) {
                         No questions in this section yet.
                       </div>
                     ) : (
-                      section.questions.map((q) => (
+                      section.questions.map((q, qIndex) => (
                         <div
                           key={q.id}
-                          className="border rounded-xl bg-gray-50 p-3 space-y-2 text-xs"
+                          onDragOver={(e) => handleQuestionDragOver(e, q.id)}
+                          onDrop={(e) =>
+                            handleQuestionDrop(e, section.id, qIndex)
+                          }
+                          className={`border rounded-xl bg-gray-50 p-3 space-y-2 text-xs ${
+                            dropTargetId === q.id
+                              ? "border-t-4 border-t-purple-400"
+                              : ""
+                          } ${
+                            dragItem?.kind === "question" &&
+                            dragItem.questionId === q.id
+                              ? "opacity-50"
+                              : ""
+                          }`}
                         >
                           <div className="flex items-start justify-between gap-2">
+                            {renderMoveControls(
+                              {
+                                kind: "question",
+                                sectionId: section.id,
+                                questionId: q.id,
+                              },
+                              (delta) =>
+                                moveQuestionBy(section.id, q.id, delta)
+                            )}
                             <div className="flex-1 space-y-1">
                               <input
                                 value={q.label}
@@ -817,6 +1948,27 @@ export default function TemplateEditorPage({ mode }: Props) {
                                 className="w-full border rounded-xl px-2 py-1 text-xs"
                                 placeholder="Question text…"
                               />
+                              {translationLang && (
+                                <input
+                                  value={
+                                    q.translations?.[translationLang]?.label ||
+                                    ""
+                                  }
+                                  onChange={(e) =>
+                                    updateQuestionTranslation(
+                                      section.id,
+                                      q.id,
+                                      translationLang,
+                                      { label: e.target.value }
+                                    )
+                                  }
+                                  className="w-full border border-sky-200 bg-sky-50 rounded-xl px-2 py-1 text-xs"
+                                  placeholder={`${languageLabel(translationLang)}: ${q.label}`}
+                                />
+                              )}
+                              {renderIssues(
+                                issuesFor(issues, section.id, q.id)
+                              )}
                               <div className="flex flex-wrap gap-2 items-center">
                                 <select
                                   value={q.type}
@@ -841,6 +1993,18 @@ export default function TemplateEditorPage({ mode }: Props) {
                                     Text only
                                   </option>
 <option value="signature">Signature</option>
+                                  <option value="number">
+                                    Number / reading
+                                  </option>
+                                  <option value="response_set">
+                                    Response set
+                                  </option>
+                                  <option value="scan">
+                                    Scan (QR / barcode)
+                                  </option>
+                                  <option value="location">
+                                    GPS location
+                                  </option>
                                 </select>
                                 <label className="inline-flex items-center gap-1 text-[11px]">
                                   <input
@@ -878,16 +2042,96 @@ export default function TemplateEditorPage({ mode }: Props) {
                                   />
                                   <span>Photos</span>
                                 </label>
+                                <button
+                                  onClick={() => toggleLogicOpen(q.id)}
+                                  className={`px-2 py-0.5 border rounded-xl text-[11px] hover:bg-white ${
+                                    q.visibility?.conditions?.length
+                                      ? "border-purple-300 text-purple-700 bg-purple-50"
+                                      : ""
+                                  }`}
+                                >
+                                  {q.visibility?.conditions?.length
+                                    ? "Conditional"
+                                    : "Logic"}
+                                </button>
+                                <button
+                                  onClick={() => toggleGuidanceOpen(q.id)}
+                                  className={`px-2 py-0.5 border rounded-xl text-[11px] hover:bg-white ${
+                                    q.guidance || q.reference_images?.length
+                                      ? "border-sky-300 text-sky-700 bg-sky-50"
+                                      : ""
+                                  }`}
+                                >
+                                  Guidance
+                                  {q.reference_images?.length
+                                    ? ` (${q.reference_images.length} img)`
+                                    : ""}
+                                </button>
+                                {SCORED_TYPES.includes(q.type) && (
+                                  <label
+                                    className="inline-flex items-center gap-1 text-[11px] text-rose-700"
+                                    title="A No / Poor / zero-score / out-of-range answer fails the whole inspection"
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={!!q.critical}
+                                      onChange={(e) =>
+                                        updateQuestion(section.id, q.id, {
+                                          critical: e.target.checked,
+                                        })
+                                      }
+                                    />
+                                    <span>Critical</span>
+                                  </label>
+                                )}
+                                {SCORED_TYPES.includes(q.type) && (
+                                  <label className="inline-flex items-center gap-1 text-[11px]">
+                                    <span>Weight</span>
+                                    <input
+                                      type="number"
+                                      min={0}
+                                      step="any"
+                                      value={q.weight ?? 1}
+                                      onChange={(e) =>
+                                        updateQuestion(section.id, q.id, {
+                                          weight:
+                                            parseOptionalNumber(
+                                              e.target.value
+                                            ) ?? 1,
+                                        })
+                                      }
+                                      className="w-14 border rounded-xl px-2 py-0.5 text-[11px]"
+                                    />
+                                  </label>
+                                )}
                               </div>
                             </div>
-                            <button
-                              onClick={() =>
-                                removeQuestion(section.id, q.id)
-                              }
-                              className="text-[11px] text-rose-600 hover:underline"
-                            >
-                              Remove
-                            </button>
+                            <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                              <button
+                                onClick={() =>
+                                  removeQuestion(section.id, q.id)
+                                }
+                                className="text-[11px] text-rose-600 hover:underline"
+                              >
+                                Remove
+                              </button>
+                              {q.library_id && (
+                                <span className="px-2 py-0.5 rounded-full bg-purple-50 text-purple-700 text-[10px]">
+                                  Library
+                                </span>
+                              )}
+                              <button
+                                onClick={() =>
+                                  handleSaveToLibrary(section.id, q)
+                                }
+                                disabled={libraryBusyId === q.id}
+                                className="text-[11px] text-purple-700 hover:underline disabled:opacity-50"
+                              >
+                                {q.library_id
+                                  ? "Update library"
+                                  : "Save to library"}
+                              </button>
+                            </div>
                           </div>
 
                           {q.type === "multiple_choice" && (
@@ -910,6 +2154,352 @@ export default function TemplateEditorPage({ mode }: Props) {
                                 className="w-full border rounded-xl px-2 py-1 text-xs"
                                 placeholder="E.g. Option A, Option B, Option C"
                               />
+                              {translationLang &&
+                                (q.options || []).length > 0 && (
+                                  <div className="mt-2">
+                                    <label className="block text-[11px] text-gray-500 mb-1">
+                                      {languageLabel(translationLang)} choices
+                                      (same order, comma-separated)
+                                    </label>
+                                    <input
+                                      value={(
+                                        q.translations?.[translationLang]
+                                          ?.options || []
+                                      ).join(", ")}
+                                      onChange={(e) =>
+                                        updateQuestionTranslation(
+                                          section.id,
+                                          q.id,
+                                          translationLang,
+                                          {
+                                            // keep blanks so positions line up
+                                            options: e.target.value
+                                              .split(",")
+                                              .map((o) => o.trim()),
+                                          }
+                                        )
+                                      }
+                                      className="w-full border border-sky-200 bg-sky-50 rounded-xl px-2 py-1 text-xs"
+                                      placeholder={(q.options || []).join(", ")}
+                                    />
+                                  </div>
+                                )}
+                              {(q.options || []).length > 0 && (
+                                <div className="mt-2 space-y-1">
+                                  <label className="block text-[11px] text-gray-500">
+                                    Option scores (leave blank to not score
+                                    this question)
+                                  </label>
+                                  <div className="flex flex-wrap gap-2">
+                                    {(q.options || []).map((opt) => (
+                                      <label
+                                        key={opt}
+                                        className="inline-flex items-center gap-1 text-[11px]"
+                                      >
+                                        <span className="text-gray-600">
+                                          {opt}
+                                        </span>
+                                        <input
+                                          type="number"
+                                          step="any"
+                                          value={q.optionScores?.[opt] ?? ""}
+                                          onChange={(e) => {
+                                            const next = {
+                                              ...(q.optionScores || {}),
+                                            };
+                                            const n = parseOptionalNumber(
+                                              e.target.value
+                                            );
+                                            if (n === null) delete next[opt];
+                                            else next[opt] = n;
+                                            updateQuestion(section.id, q.id, {
+                                              optionScores: next,
+                                            });
+                                          }}
+                                          className="w-14 border rounded-xl px-2 py-0.5 text-[11px]"
+                                        />
+                                      </label>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+                          )}
+
+                          {q.type === "response_set" && (
+                            <div className="space-y-1">
+                              <label className="block text-[11px] text-gray-500">
+                                Response set
+                              </label>
+                              <select
+                                value={q.response_set?.id || ""}
+                                onChange={(e) =>
+                                  updateQuestion(section.id, q.id, {
+                                    response_set:
+                                      responseSets.find(
+                                        (rs) => rs.id === e.target.value
+                                      ) || null,
+                                  })
+                                }
+                                className="border rounded-xl px-2 py-1 text-[11px]"
+                              >
+                                <option value="">Choose a response set…</option>
+                                {q.response_set &&
+                                  !responseSets.some(
+                                    (rs) => rs.id === q.response_set!.id
+                                  ) && (
+                                    <option value={q.response_set.id}>
+                                      {q.response_set.name} (deleted)
+                                    </option>
+                                  )}
+                                {responseSets.map((rs) => (
+                                  <option key={rs.id} value={rs.id}>
+                                    {rs.name}
+                                  </option>
+                                ))}
+                              </select>
+                              {responseSets.length === 0 && (
+                                <div className="text-[11px] text-gray-400">
+                                  No response sets yet – create one under
+                                  Response sets.
+                                </div>
+                              )}
+                              {q.response_set && (
+                                <div className="flex flex-wrap gap-1">
+                                  {q.response_set.options.map((o) => (
+                                    <span
+                                      key={o.key}
+                                      className={`px-2 py-0.5 rounded-xl border text-[11px] ${
+                                        colorStyle(o.color).selected
+                                      }`}
+                                    >
+                                      {o.label}
+                                      {typeof o.score === "number" &&
+                                        ` (${o.score})`}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
+
+                          {q.type === "scan" && (
+                            <div>
+                              <label className="block text-[11px] text-gray-500 mb-1">
+                                Expected pattern (optional regular
+                                expression, e.g. ^EXT-\d{4}$)
+                              </label>
+                              <input
+                                value={q.expected_pattern || ""}
+                                onChange={(e) =>
+                                  updateQuestion(section.id, q.id, {
+                                    expected_pattern: e.target.value,
+                                  })
+                                }
+                                className={`w-full border rounded-xl px-2 py-1 text-xs font-mono ${
+                                  q.expected_pattern &&
+                                  !isValidPattern(q.expected_pattern)
+                                    ? "border-rose-400 bg-rose-50"
+                                    : ""
+                                }`}
+                                placeholder="Any value"
+                              />
+                              <p className="mt-1 text-[10px] text-gray-400">
+                                Inspectors scan with the camera or a photo;
+                                codes that don't match are flagged.
+                              </p>
+                            </div>
+                          )}
+
+                          {q.type === "number" && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                              <div>
+                                <label className="block text-[11px] text-gray-500 mb-1">
+                                  Unit
+                                </label>
+                                <input
+                                  value={q.unit || ""}
+                                  onChange={(e) =>
+                                    updateQuestion(section.id, q.id, {
+                                      unit: e.target.value,
+                                    })
+                                  }
+                                  className="w-full border rounded-xl px-2 py-1 text-xs"
+                                  placeholder="E.g. °C, bar, V"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-[11px] text-gray-500 mb-1">
+                                  Min acceptable
+                                </label>
+                                <input
+                                  type="number"
+                                  value={q.min ?? ""}
+                                  onChange={(e) =>
+                                    updateQuestion(section.id, q.id, {
+                                      min: parseOptionalNumber(e.target.value),
+                                    })
+                                  }
+                                  className="w-full border rounded-xl px-2 py-1 text-xs"
+                                  placeholder="No minimum"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-[11px] text-gray-500 mb-1">
+                                  Max acceptable
+                                </label>
+                                <input
+                                  type="number"
+                                  value={q.max ?? ""}
+                                  onChange={(e) =>
+                                    updateQuestion(section.id, q.id, {
+                                      max: parseOptionalNumber(e.target.value),
+                                    })
+                                  }
+                                  className="w-full border rounded-xl px-2 py-1 text-xs"
+                                  placeholder="No maximum"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-[11px] text-gray-500 mb-1">
+                                  Decimal places
+                                </label>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  max={6}
+                                  value={q.decimals ?? ""}
+                                  onChange={(e) => {
+                                    const n = parseOptionalNumber(
+                                      e.target.value
+                                    );
+                                    updateQuestion(section.id, q.id, {
+                                      decimals:
+                                        n === null
+                                          ? null
+                                          : Math.min(
+                                              6,
+                                              Math.max(0, Math.round(n))
+                                            ),
+                                    });
+                                  }}
+                                  className="w-full border rounded-xl px-2 py-1 text-xs"
+                                  placeholder="Any"
+                                />
+                              </div>
+                            </div>
+                          )}
+
+                          {logicOpenIds.includes(q.id) && (
+                            <div className="border rounded-xl bg-white p-2">
+                              <VisibilityRuleEditor
+                                rule={q.visibility}
+                                candidates={ruleCandidatesFor(null, q.id)}
+                                onChange={(rule) =>
+                                  updateQuestion(section.id, q.id, {
+                                    visibility: rule,
+                                  })
+                                }
+                              />
+                            </div>
+                          )}
+
+                          {guidanceOpenIds.includes(q.id) && (
+                            <div className="border rounded-xl bg-white p-2 space-y-2">
+                              <div className="grid md:grid-cols-2 gap-2">
+                                <div>
+                                  <label className="block text-[11px] text-gray-500 mb-1">
+                                    Guidance for inspectors (markdown:
+                                    **bold**, *italic*, - lists,
+                                    [link](https://…))
+                                  </label>
+                                  <textarea
+                                    value={q.guidance || ""}
+                                    onChange={(e) =>
+                                      updateQuestion(section.id, q.id, {
+                                        guidance: e.target.value,
+                                      })
+                                    }
+                                    className="w-full border rounded-xl px-2 py-1 text-xs min-h-[80px]"
+                                    placeholder="What does acceptable look like?"
+                                  />
+                                  {translationLang && (
+                                    <textarea
+                                      value={
+                                        q.translations?.[translationLang]
+                                          ?.guidance || ""
+                                      }
+                                      onChange={(e) =>
+                                        updateQuestionTranslation(
+                                          section.id,
+                                          q.id,
+                                          translationLang,
+                                          { guidance: e.target.value }
+                                        )
+                                      }
+                                      className="mt-1 w-full border border-sky-200 bg-sky-50 rounded-xl px-2 py-1 text-xs min-h-[60px]"
+                                      placeholder={`${languageLabel(translationLang)} guidance`}
+                                    />
+                                  )}
+                                </div>
+                                <div>
+                                  <div className="text-[11px] text-gray-500 mb-1">
+                                    Preview
+                                  </div>
+                                  <div className="border rounded-xl bg-gray-50 px-2 py-1 text-xs text-gray-700 min-h-[80px]">
+                                    {q.guidance ? (
+                                      <MarkdownText source={q.guidance} />
+                                    ) : (
+                                      <span className="text-gray-400">
+                                        No guidance yet.
+                                      </span>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                              <div className="flex flex-wrap items-center gap-2">
+                                {(q.reference_images || []).map((img, i) => (
+                                  <div key={i} className="relative">
+                                    <img
+                                      src={img}
+                                      alt={`Reference ${i + 1}`}
+                                      className="h-16 w-16 rounded-md object-cover border bg-gray-50"
+                                    />
+                                    <button
+                                      onClick={() =>
+                                        updateQuestion(section.id, q.id, {
+                                          reference_images: (
+                                            q.reference_images || []
+                                          ).filter((_, j) => j !== i),
+                                        })
+                                      }
+                                      className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-rose-600 text-white text-[10px] leading-4"
+                                      title="Remove image"
+                                    >
+                                      ×
+                                    </button>
+                                  </div>
+                                ))}
+                                <label className="inline-flex items-center gap-2 text-[11px] cursor-pointer">
+                                  <span className="px-2 py-1 border rounded-xl bg-white hover:bg-gray-50">
+                                    Add reference images
+                                  </span>
+                                  <input
+                                    type="file"
+                                    accept="image/*"
+                                    multiple
+                                    className="hidden"
+                                    onChange={(e) => {
+                                      handleReferenceImages(
+                                        section.id,
+                                        q.id,
+                                        e.target.files
+                                      );
+                                      e.target.value = "";
+                                    }}
+                                  />
+                                </label>
+                              </div>
                             </div>
                           )}
                         </div>
@@ -938,6 +2528,13 @@ export default function TemplateEditorPage({ mode }: Props) {
           </div>
         )}
       </div>
+
+      <QuestionLibraryModal
+        open={libraryTargetSectionId !== null}
+        onClose={() => setLibraryTargetSectionId(null)}
+        onInsert={handleInsertFromLibrary}
+        onPushed={applyLibraryUpdateLocally}
+      />
     </div>
   );
 }
\ No newline at end of file
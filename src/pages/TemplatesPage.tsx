@@ -3,6 +3,36 @@ import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/utils/supabaseClient";
 import ImportTemplateFromPdfModal from "@/components/ImportTemplateFromPdfModal";
+import ImportTemplateFromSpreadsheetModal from "@/components/ImportTemplateFromSpreadsheetModal";
+import {
+  ACTION_LABELS,
+  applyReviewAction,
+  loadTemplateReviews,
+  ReviewAction,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  statusOf,
+  TemplateReview,
+  TemplateStatus,
+} from "@/utils/templateReviews";
+import {
+  hasErrors,
+  summariseIssues,
+  validateTemplate,
+} from "@/utils/templateValidation";
+import {
+  canAccessTemplateSites,
+  loadTemplateSiteMap,
+  siteIdsFor,
+} from "@/utils/templateSites";
+import {
+  loadTemplateUsage,
+  matchesSearch,
+  SORT_LABELS,
+  tagCounts,
+  TemplateSort,
+  TemplateUsage,
+} from "@/utils/templateSearch";
 
 type Role = "admin" | "manager" | "inspector" | string | null;
 
@@ -10,9 +40,18 @@ type TemplateRow = {
   id: string;
   name: string;
   description: string | null;
-  site_id: string | null;
+  site_id: string | null; // legacy single site
+  site_ids: string[]; // from template_sites; empty = all sites
+  status: TemplateStatus;
   is_published: boolean;
   logo_data_url?: string | null;
+  current_version: number | null; // published version new inspections use
+  last_review: TemplateReview | null; // latest lifecycle change
+  category: string | null;
+  tags: string[];
+  updated_at: string | null;
+  search_text: string; // name, description, sections, question labels
+  usage: TemplateUsage;
 };
 
 type SiteRow = {
@@ -32,11 +71,23 @@ export default function TemplatesPage() {
   const [error, setError] = useState<string | null>(null);
 
   const [selectedSiteId, setSelectedSiteId] = useState<string>("all");
-  const [publishedFilter, setPublishedFilter] = useState<
-    "all" | "published" | "unpublished"
-  >("all");
+  const [statusFilter, setStatusFilter] = useState<"all" | TemplateStatus>(
+    "all"
+  );
+
+  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [tagFilter, setTagFilter] = useState<string[]>([]); // must have all
+  const [search, setSearch] = useState("");
+  const [sortBy, setSortBy] = useState<TemplateSort>("name");
 
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showSpreadsheetModal, setShowSpreadsheetModal] = useState(false);
+
+  // Site picker when a template is assigned to several sites
+  const [startPicker, setStartPicker] = useState<
+    { tpl: TemplateRow; siteIds: string[] } | null
+  >(null);
+  const [startSiteId, setStartSiteId] = useState<string>("");
 
   const navigate = useNavigate();
 
@@ -128,18 +179,52 @@ export default function TemplatesPage() {
     try {
       const { data, error } = await supabase
         .from("templates")
-        .select("id, name, description, site_id, is_published, logo_data_url")
+        .select(
+          "id, name, description, site_id, status, is_published, logo_data_url, current_version, category, tags, updated_at, search_text"
+        )
         .order("name", { ascending: true });
 
       if (error) throw error;
 
+      const siteMap = await loadTemplateSiteMap();
+
+      // Review history is informational; the list works without it
+      let reviews: TemplateReview[] = [];
+      try {
+        reviews = await loadTemplateReviews();
+      } catch (reviewErr) {
+        console.error("loadTemplateReviews error", reviewErr);
+      }
+
+      // Usage counts only affect sorting
+      let usage = new Map<string, TemplateUsage>();
+      try {
+        usage = await loadTemplateUsage();
+      } catch (usageErr) {
+        console.error("loadTemplateUsage error", usageErr);
+      }
+
       const mapped: TemplateRow[] = (data || []).map((t: any) => ({
         id: t.id,
         name: t.name,
         description: t.description ?? null,
         site_id: t.site_id ?? null,
+        site_ids: siteIdsFor(siteMap, t.id, t.site_id ?? null),
+        status: statusOf(t),
         is_published: !!t.is_published,
         logo_data_url: t.logo_data_url ?? null,
+        current_version:
+          t.current_version === null || t.current_version === undefined
+            ? null
+            : Number(t.current_version),
+        // reviews are newest first
+        last_review: reviews.find((r) => r.template_id === t.id) || null,
+        category: (t.category || "").trim() || null,
+        tags: Array.isArray(t.tags) ? t.tags : [],
+        updated_at: t.updated_at ?? null,
+        search_text:
+          t.search_text || [t.name, t.description].filter(Boolean).join(" "),
+        usage: usage.get(t.id) || { inspection_count: 0, last_used_at: null },
       }));
 
       setTemplates(mapped);
@@ -168,6 +253,18 @@ export default function TemplatesPage() {
     return s ? s.name : "Unknown site";
   };
 
+  const siteSummaryFor = (site_ids: string[]) => {
+    if (!site_ids.length) return "All sites";
+    if (site_ids.length === 1) return siteNameFor(site_ids[0]);
+    return `${site_ids.length} sites`;
+  };
+
+  // Assigned sites this user may start an inspection at
+  const startableSitesFor = (tpl: TemplateRow) => {
+    if (isAdmin) return tpl.site_ids;
+    return tpl.site_ids.filter((id) => (siteAccess || []).includes(id));
+  };
+
   // Sites the current user can filter by
   const visibleSites = useMemo(() => {
     if (!sites.length) return [];
@@ -178,35 +275,123 @@ export default function TemplatesPage() {
     return sites.filter((s) => siteAccess.includes(s.id));
   }, [sites, isAdmin, siteAccess]);
 
-  // Templates filtered by:
-  // - site access (for non-admins)
-  // - selected site
-  // - published filter
-  const filteredTemplates = useMemo(() => {
+  // Templates this user may see: site access for non-admins, and
+  // inspectors don't see retired templates
+  const accessibleTemplates = useMemo(() => {
     let list = [...templates];
 
-    // Access control by site_access
     if (!isAdmin) {
       const allowed = siteAccess || [];
-      list = list.filter((tpl) => {
-        // Global templates (no site) visible to everyone
-        if (!tpl.site_id) return true;
-        return allowed.includes(tpl.site_id);
-      });
+      // Global templates (no sites) visible to everyone
+      list = list.filter((tpl) =>
+        canAccessTemplateSites(tpl.site_ids, allowed)
+      );
+    }
+
+    if (!canEdit) {
+      list = list.filter((tpl) => tpl.status !== "retired");
     }
 
+    return list;
+  }, [templates, isAdmin, canEdit, siteAccess]);
+
+  const categories = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          accessibleTemplates
+            .map((tpl) => tpl.category)
+            .filter((c): c is string => !!c)
+        )
+      ).sort((a, b) => a.localeCompare(b)),
+    [accessibleTemplates]
+  );
+
+  const allTags = useMemo(
+    () => tagCounts(accessibleTemplates),
+    [accessibleTemplates]
+  );
+
+  // Accessible templates filtered by site, status, category, tags and
+  // search, then sorted
+  const filteredTemplates = useMemo(() => {
+    let list = accessibleTemplates;
+
     if (selectedSiteId !== "all") {
-      list = list.filter((tpl) => tpl.site_id === selectedSiteId);
+      list = list.filter((tpl) => tpl.site_ids.includes(selectedSiteId));
     }
 
-    if (publishedFilter === "published") {
-      list = list.filter((tpl) => tpl.is_published);
-    } else if (publishedFilter === "unpublished") {
-      list = list.filter((tpl) => !tpl.is_published);
+    if (statusFilter !== "all") {
+      list = list.filter((tpl) => tpl.status === statusFilter);
     }
 
-    return list;
-  }, [templates, isAdmin, siteAccess, selectedSiteId, publishedFilter]);
+    if (categoryFilter === "none") {
+      list = list.filter((tpl) => !tpl.category);
+    } else if (categoryFilter !== "all") {
+      list = list.filter((tpl) => tpl.category === categoryFilter);
+    }
+
+    if (tagFilter.length) {
+      list = list.filter((tpl) =>
+        tagFilter.every((tag) => tpl.tags.includes(tag))
+      );
+    }
+
+    if (search.trim()) {
+      list = list.filter((tpl) => matchesSearch(tpl.search_text, search));
+    }
+
+    const byName = (a: TemplateRow, b: TemplateRow) =>
+      a.name.localeCompare(b.name);
+    return [...list].sort((a, b) => {
+      if (sortBy === "updated") {
+        const diff =
+          new Date(b.updated_at || 0).getTime() -
+          new Date(a.updated_at || 0).getTime();
+        return diff || byName(a, b);
+      }
+      if (sortBy === "usage") {
+        return (
+          b.usage.inspection_count - a.usage.inspection_count || byName(a, b)
+        );
+      }
+      return byName(a, b);
+    });
+  }, [
+    accessibleTemplates,
+    selectedSiteId,
+    statusFilter,
+    categoryFilter,
+    tagFilter,
+    search,
+    sortBy,
+  ]);
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+  };
+
+  const hasListFilters =
+    selectedSiteId !== "all" ||
+    statusFilter !== "all" ||
+    categoryFilter !== "all" ||
+    tagFilter.length > 0 ||
+    !!search.trim();
+
+  const clearListFilters = () => {
+    setSelectedSiteId("all");
+    setStatusFilter("all");
+    setCategoryFilter("all");
+    setTagFilter([]);
+    setSearch("");
+  };
+
+  const pendingReview = useMemo(
+    () => accessibleTemplates.filter((tpl) => tpl.status === "in_review"),
+    [accessibleTemplates]
+  );
 
   // --------------------------
   // Actions
@@ -227,27 +412,68 @@ export default function TemplatesPage() {
     navigate(`/templates/${id}/edit`);
   };
 
-  const handleTogglePublished = async (tpl: TemplateRow) => {
-    if (!canEdit) {
-      alert("Only managers/admins can change publish state.");
+  // Lifecycle: managers submit, admins approve / reject / retire
+  const handleReviewAction = async (tpl: TemplateRow, action: ReviewAction) => {
+    const adminOnly = ["approved", "rejected", "retired", "restored"];
+    if (!canEdit || (adminOnly.includes(action) && !isAdmin)) {
+      alert("You are not allowed to change this template's status.");
       return;
     }
+
     try {
-      const next = !tpl.is_published;
-      const { error } = await supabase
-        .from("templates")
-        .update({ is_published: next })
-        .eq("id", tpl.id);
+      // Nothing with errors reaches review or goes live
+      if (action === "submitted" || action === "approved") {
+        const { data: full, error: fullErr } = await supabase
+          .from("templates")
+          .select("definition")
+          .eq("id", tpl.id)
+          .single();
+        if (fullErr) throw fullErr;
 
-      if (error) throw error;
-      setTemplates((prev) =>
-        prev.map((t) =>
-          t.id === tpl.id ? { ...t, is_published: next } : t
-        )
-      );
+        const issues = validateTemplate(full.definition);
+        if (hasErrors(issues)) {
+          alert(
+            `"${tpl.name}" can't be ${
+              action === "submitted" ? "submitted" : "published"
+            } yet:\n\n` +
+              summariseIssues(issues.filter((i) => i.level === "error")) +
+              "\n\nOpen it in the editor to fix these."
+          );
+          return;
+        }
+      }
+
+      let comment: string | null = null;
+      if (action === "rejected") {
+        comment = prompt(`What needs to change in "${tpl.name}"?`, "");
+        if (comment === null) return;
+        if (!comment.trim()) {
+          alert("Please add a comment so the author knows what to change.");
+          return;
+        }
+      } else if (action === "submitted" || action === "approved") {
+        comment = prompt(
+          action === "submitted"
+            ? "Notes for the reviewer (optional):"
+            : "Approval comment (optional):",
+          ""
+        );
+        if (comment === null) return;
+      } else if (action === "retired") {
+        if (
+          !window.confirm(
+            `Retire "${tpl.name}"? New inspections can no longer be started from it.`
+          )
+        ) {
+          return;
+        }
+      }
+
+      await applyReviewAction(tpl.id, action, comment);
+      await loadTemplates();
     } catch (e: any) {
-      console.error("togglePublished error", e);
-      alert(e?.message || "Could not update template publish state.");
+      console.error("reviewAction error", e);
+      alert(e?.message || "Could not update template status.");
     }
   };
 
@@ -276,7 +502,40 @@ export default function TemplatesPage() {
     }
   };
 
-  const handleStartInspection = async (tpl: TemplateRow) => {
+  const handleStartInspection = (tpl: TemplateRow) => {
+    if (tpl.status === "retired") {
+      alert("This template has been retired.");
+      return;
+    }
+    // Inspections always run against an approved version, never the draft
+    if (!tpl.is_published || tpl.current_version === null) {
+      alert(
+        "This template has no approved version yet. It needs to be published before inspections can be started."
+      );
+      return;
+    }
+    // Global templates start without a site, as before
+    if (!tpl.site_ids.length) {
+      startInspectionAt(tpl, null);
+      return;
+    }
+    const options = startableSitesFor(tpl);
+    if (options.length === 0) {
+      alert("You don't have access to any of the sites for this template.");
+      return;
+    }
+    if (options.length === 1) {
+      startInspectionAt(tpl, options[0]);
+      return;
+    }
+    setStartPicker({ tpl, siteIds: options });
+    setStartSiteId(options[0]);
+  };
+
+  const startInspectionAt = async (
+    tpl: TemplateRow,
+    siteId: string | null
+  ) => {
     try {
       const { data: userData } = await supabase.auth.getUser();
       const user = userData?.user;
@@ -298,8 +557,9 @@ export default function TemplatesPage() {
       const { error } = await supabase.from("inspections").insert({
         template_id: tpl.id,
         template_name: tpl.name,
-        site_id: tpl.site_id,
-        site: siteNameFor(tpl.site_id),
+        template_version: tpl.current_version,
+        site_id: siteId,
+        site: siteNameFor(siteId),
         status: "in_progress",
         started_at: nowIso,
         submitted_at: null,
@@ -354,6 +614,12 @@ export default function TemplatesPage() {
               >
                 Import from PDF
               </button>
+              <button
+                onClick={() => setShowSpreadsheetModal(true)}
+                className="px-3 py-2 rounded-xl border text-sm hover:bg-gray-50"
+              >
+                Import spreadsheet
+              </button>
               <button
                 onClick={handleNewTemplate}
                 className="px-3 py-2 rounded-xl bg-purple-700 text-white text-sm hover:bg-purple-800"
@@ -367,6 +633,14 @@ export default function TemplatesPage() {
 
       {/* Filters */}
       <div className="flex flex-wrap gap-3 items-center text-xs">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search names, descriptions and questions…"
+          className="border rounded-xl px-3 py-1 w-full md:w-72"
+        />
+
         <div className="flex items-center gap-1">
           <span className="text-gray-500">Site:</span>
           <select
@@ -386,107 +660,137 @@ export default function TemplatesPage() {
         <div className="flex items-center gap-1">
           <span className="text-gray-500">Status:</span>
           <select
-            value={publishedFilter}
+            value={statusFilter}
             onChange={(e) =>
-              setPublishedFilter(
-                e.target.value as "all" | "published" | "unpublished"
-              )
+              setStatusFilter(e.target.value as "all" | TemplateStatus)
             }
             className="border rounded-xl px-3 py-1"
           >
             <option value="all">All</option>
-            <option value="published">Published</option>
-            <option value="unpublished">Unpublished</option>
+            {(Object.keys(STATUS_LABELS) as TemplateStatus[]).map((st) => (
+              <option key={st} value={st}>
+                {STATUS_LABELS[st]}
+              </option>
+            ))}
           </select>
         </div>
-      </div>
 
-      {/* Error / loading / list */}
-      {error && (
-        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">
-          {error}
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500">Category:</span>
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+            className="border rounded-xl px-3 py-1"
+          >
+            <option value="all">All</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+            <option value="none">Uncategorised</option>
+          </select>
         </div>
-      )}
 
-      {loading ? (
-        <div className="rounded-xl border bg-white p-4 text-sm text-gray-600">
-          Loading templates…
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500">Sort:</span>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as TemplateSort)}
+            className="border rounded-xl px-3 py-1"
+          >
+            {(Object.keys(SORT_LABELS) as TemplateSort[]).map((key) => (
+              <option key={key} value={key}>
+                {SORT_LABELS[key]}
+              </option>
+            ))}
+          </select>
         </div>
-      ) : filteredTemplates.length === 0 ? (
-        <div className="rounded-xl border bg-white p-4 text-sm text-gray-600">
-          No templates found for the current filters.
+
+        {hasListFilters && (
+          <button
+            onClick={clearListFilters}
+            className="text-purple-700 hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 items-center text-[11px]">
+          <span className="text-gray-500 mr-1">Tags:</span>
+          {allTags.map(([tag, count]) => {
+            const active = tagFilter.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTagFilter(tag)}
+                aria-pressed={active}
+                className={`px-2 py-0.5 rounded-full border ${
+                  active
+                    ? "bg-purple-700 border-purple-700 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                #{tag} <span className="opacity-60">{count}</span>
+              </button>
+            );
+          })}
         </div>
-      ) : (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {filteredTemplates.map((tpl) => (
+      )}
+
+      {/* Pending review queue */}
+      {canEdit && pendingReview.length > 0 && (
+        <div className="rounded-2xl border border-sky-200 bg-sky-50 p-4 space-y-2">
+          <div className="text-sm font-semibold text-sky-800">
+            Pending review ({pendingReview.length})
+          </div>
+          {pendingReview.map((tpl) => (
             <div
               key={tpl.id}
-              className="border rounded-2xl bg-white p-4 space-y-3 shadow-sm"
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-white border border-sky-100 px-3 py-2 text-xs"
             >
-              <div className="flex items-center gap-3">
-                {tpl.logo_data_url && (
-                  <img
-                    src={tpl.logo_data_url}
-                    alt={tpl.name}
-                    className="h-10 w-10 rounded-md object-cover border bg-white flex-shrink-0"
-                  />
-                )}
-                <div>
-                  <h2 className="font-semibold text-gray-900">
-                    {tpl.name}
-                  </h2>
-                  <div className="flex flex-wrap gap-2 items-center text-[11px] mt-1">
-                    <span className="inline-flex items-center rounded-full bg-gray-100 text-gray-700 px-2 py-0.5">
-                      {siteNameFor(tpl.site_id)}
-                    </span>
-                    <span
-                      className={`inline-flex items-center rounded-full px-2 py-0.5 ${
-                        tpl.is_published
-                          ? "bg-emerald-50 text-emerald-700 border border-emerald-100"
-                          : "bg-amber-50 text-amber-700 border border-amber-100"
-                      }`}
-                    >
-                      {tpl.is_published ? "Published" : "Unpublished"}
-                    </span>
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900">{tpl.name}</div>
+                {tpl.last_review && (
+                  <div className="text-[11px] text-gray-500">
+                    Submitted by {tpl.last_review.created_by_name || "someone"}{" "}
+                    on {new Date(tpl.last_review.created_at).toLocaleString()}
+                    {tpl.last_review.comment && (
+                      <> – “{tpl.last_review.comment}”</>
+                    )}
                   </div>
-                </div>
+                )}
               </div>
-
-              {tpl.description && (
-                <p className="text-xs text-gray-600 line-clamp-3">
-                  {tpl.description}
-                </p>
-              )}
-
-              <div className="flex gap-2 text-xs">
+              <div className="flex gap-2">
                 <button
-                  onClick={() => handleStartInspection(tpl)}
-                  className="flex-1 px-3 py-1 rounded-xl border hover:bg-gray-50"
+                  onClick={() => handleEditTemplate(tpl.id)}
+                  className="px-3 py-1 rounded-xl border hover:bg-gray-50"
                 >
-                  Start inspection
+                  Open
                 </button>
-                {canEdit && (
+                {isAdmin ? (
                   <>
                     <button
-                      onClick={() => handleEditTemplate(tpl.id)}
-                      className="px-3 py-1 rounded-xl border hover:bg-gray-50"
+                      onClick={() => handleReviewAction(tpl, "approved")}
+                      className="px-3 py-1 rounded-xl bg-emerald-600 text-white hover:bg-emerald-700"
                     >
-                      Edit
+                      Approve
                     </button>
                     <button
-                      onClick={() => handleTogglePublished(tpl)}
-                      className="px-3 py-1 rounded-xl border hover:bg-gray-50"
+                      onClick={() => handleReviewAction(tpl, "rejected")}
+                      className="px-3 py-1 rounded-xl border text-rose-600 hover:bg-rose-50"
                     >
-                      {tpl.is_published ? "Unpublish" : "Publish"}
+                      Reject
                     </button>
                   </>
-                )}
-                {isAdmin && (
+                ) : (
                   <button
-                    onClick={() => handleDeleteTemplate(tpl)}
-                    className="px-3 py-1 rounded-xl border text-rose-600 hover:bg-rose-50"
+                    onClick={() => handleReviewAction(tpl, "withdrawn")}
+                    className="px-3 py-1 rounded-xl border hover:bg-gray-50"
                   >
-                    Delete
+                    Withdraw
                   </button>
                 )}
               </div>
@@ -495,6 +799,186 @@ export default function TemplatesPage() {
         </div>
       )}
 
+      {/* Error / loading / list */}
+      {error && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="rounded-xl border bg-white p-4 text-sm text-gray-600">
+          Loading templates…
+        </div>
+      ) : filteredTemplates.length === 0 ? (
+        <div className="rounded-xl border bg-white p-4 text-sm text-gray-600">
+          No templates found for the current filters.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="text-[11px] text-gray-400">
+            Showing {filteredTemplates.length} of {accessibleTemplates.length}{" "}
+            templates
+          </div>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {filteredTemplates.map((tpl) => (
+              <div
+                key={tpl.id}
+                className="border rounded-2xl bg-white p-4 space-y-3 shadow-sm"
+              >
+                <div className="flex items-center gap-3">
+                  {tpl.logo_data_url && (
+                    <img
+                      src={tpl.logo_data_url}
+                      alt={tpl.name}
+                      className="h-10 w-10 rounded-md object-cover border bg-white flex-shrink-0"
+                    />
+                  )}
+                  <div>
+                    <h2 className="font-semibold text-gray-900">
+                      {tpl.name}
+                    </h2>
+                    <div className="flex flex-wrap gap-2 items-center text-[11px] mt-1">
+                      <span className="inline-flex items-center rounded-full bg-gray-100 text-gray-700 px-2 py-0.5">
+                        <span
+                          title={tpl.site_ids.map(siteNameFor).join(", ")}
+                        >
+                          {siteSummaryFor(tpl.site_ids)}
+                        </span>
+                      </span>
+                      <span
+                        className={`inline-flex items-center rounded-full px-2 py-0.5 ${STATUS_STYLES[tpl.status]}`}
+                      >
+                        {STATUS_LABELS[tpl.status]}
+                      </span>
+                      {tpl.current_version !== null && (
+                        <span
+                          className="inline-flex items-center rounded-full bg-purple-50 text-purple-700 border border-purple-100 px-2 py-0.5"
+                          title="Version new inspections use"
+                        >
+                          {tpl.is_published && tpl.status !== "published"
+                            ? `Live v${tpl.current_version}`
+                            : `v${tpl.current_version}`}
+                        </span>
+                      )}
+                      {tpl.category && (
+                        <button
+                          onClick={() => setCategoryFilter(tpl.category!)}
+                          className="inline-flex items-center rounded-full bg-amber-50 text-amber-800 border border-amber-100 px-2 py-0.5 hover:bg-amber-100"
+                        >
+                          {tpl.category}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {tpl.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 text-[10px]">
+                    {tpl.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => toggleTagFilter(tag)}
+                        className={`px-1.5 py-0.5 rounded-full border ${
+                          tagFilter.includes(tag)
+                            ? "bg-purple-50 border-purple-200 text-purple-700"
+                            : "text-gray-500 hover:bg-gray-50"
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {tpl.description && (
+                  <p className="text-xs text-gray-600 line-clamp-3">
+                    {tpl.description}
+                  </p>
+                )}
+
+                <p className="text-[11px] text-gray-400">
+                  {tpl.usage.inspection_count} inspection(s)
+                  {tpl.updated_at &&
+                    ` • Edited ${new Date(tpl.updated_at).toLocaleDateString()}`}
+                </p>
+
+                {canEdit && tpl.last_review && (
+                  <p
+                    className={`text-[11px] ${
+                      tpl.last_review.action === "rejected"
+                        ? "text-rose-600"
+                        : "text-gray-400"
+                    }`}
+                  >
+                    {ACTION_LABELS[tpl.last_review.action]}
+                    {tpl.last_review.created_by_name &&
+                      ` by ${tpl.last_review.created_by_name}`}
+                    {tpl.last_review.comment && `: “${tpl.last_review.comment}”`}
+                  </p>
+                )}
+
+                <div className="flex gap-2 text-xs">
+                  <button
+                    onClick={() => handleStartInspection(tpl)}
+                    className="flex-1 px-3 py-1 rounded-xl border hover:bg-gray-50"
+                  >
+                    Start inspection
+                  </button>
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => handleEditTemplate(tpl.id)}
+                        className="px-3 py-1 rounded-xl border hover:bg-gray-50"
+                      >
+                        Edit
+                      </button>
+                      {tpl.status === "draft" && (
+                        <button
+                          onClick={() =>
+                            handleReviewAction(
+                              tpl,
+                              isAdmin ? "approved" : "submitted"
+                            )
+                          }
+                          className="px-3 py-1 rounded-xl border hover:bg-gray-50"
+                        >
+                          {isAdmin ? "Publish" : "Submit"}
+                        </button>
+                      )}
+                      {isAdmin && tpl.status === "published" && (
+                        <button
+                          onClick={() => handleReviewAction(tpl, "retired")}
+                          className="px-3 py-1 rounded-xl border hover:bg-gray-50"
+                        >
+                          Retire
+                        </button>
+                      )}
+                      {isAdmin && tpl.status === "retired" && (
+                        <button
+                          onClick={() => handleReviewAction(tpl, "restored")}
+                          className="px-3 py-1 rounded-xl border hover:bg-gray-50"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => handleDeleteTemplate(tpl)}
+                      className="px-3 py-1 rounded-xl border text-rose-600 hover:bg-rose-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Import from PDF modal */}
       {showImportModal && (
         <ImportTemplateFromPdfModal
@@ -506,6 +990,63 @@ export default function TemplatesPage() {
           }}
         />
       )}
+
+      {/* Import from CSV / XLSX modal */}
+      {showSpreadsheetModal && (
+        <ImportTemplateFromSpreadsheetModal
+          open={showSpreadsheetModal}
+          onClose={() => setShowSpreadsheetModal(false)}
+          onCreated={() => {
+            setShowSpreadsheetModal(false);
+            loadTemplates();
+          }}
+        />
+      )}
+
+      {startPicker && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+          <div className="w-full max-w-sm rounded-2xl bg-white shadow-xl p-5 space-y-3 text-sm">
+            <div>
+              <h2 className="font-semibold text-gray-900">
+                Start {startPicker.tpl.name}
+              </h2>
+              <p className="text-xs text-gray-500">
+                This template is used at several sites. Which site are you
+                inspecting?
+              </p>
+            </div>
+            <select
+              value={startSiteId}
+              onChange={(e) => setStartSiteId(e.target.value)}
+              className="w-full border rounded-xl px-3 py-2 text-sm"
+            >
+              {startPicker.siteIds.map((id) => (
+                <option key={id} value={id}>
+                  {siteNameFor(id)}
+                </option>
+              ))}
+            </select>
+            <div className="flex justify-end gap-2 text-xs">
+              <button
+                onClick={() => setStartPicker(null)}
+                className="px-3 py-1.5 rounded-xl border hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  const tpl = startPicker.tpl;
+                  setStartPicker(null);
+                  startInspectionAt(tpl, startSiteId || null);
+                }}
+                className="px-3 py-1.5 rounded-xl bg-purple-700 text-white hover:bg-purple-800"
+              >
+                Start inspection
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+// src/utils/barcode.ts
+// Local QR / barcode decoding for scan questions. Uses the browser's
+// BarcodeDetector where it exists and falls back to zxing (loaded on
+// first use), so nothing leaves the device.
+import type { MultiFormatReader } from "@zxing/library";
+
+// Larger photos are scaled down before decoding
+const MAX_DECODE_SIZE = 1600;
+
+let nativeDetector: any | null | undefined;
+
+function getNativeDetector() {
+  if (nativeDetector !== undefined) return nativeDetector;
+  const Detector = (window as any).BarcodeDetector;
+  try {
+    nativeDetector = Detector ? new Detector() : null;
+  } catch {
+    nativeDetector = null;
+  }
+  return nativeDetector;
+}
+
+let zxingReader: MultiFormatReader | null = null;
+
+async function decodeWithZxing(
+  canvas: HTMLCanvasElement
+): Promise<string | null> {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx || !canvas.width || !canvas.height) return null;
+
+  const { data, width, height } = ctx.getImageData(
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminances.length; i++) {
+    const p = i * 4;
+    luminances[i] = (data[p] + 2 * data[p + 1] + data[p + 2]) >> 2;
+  }
+
+  const zxing = await import("@zxing/library");
+  if (!zxingReader) {
+    zxingReader = new zxing.MultiFormatReader();
+    zxingReader.setHints(new Map([[zxing.DecodeHintType.TRY_HARDER, true]]));
+  }
+  try {
+    const bitmap = new zxing.BinaryBitmap(
+      new zxing.HybridBinarizer(
+        new zxing.RGBLuminanceSource(luminances, width, height)
+      )
+    );
+    return zxingReader.decode(bitmap).getText() || null;
+  } catch (e) {
+    if (e instanceof zxing.NotFoundException) return null;
+    throw e;
+  } finally {
+    zxingReader.reset();
+  }
+}
+
+/** Decoded text of the first code found on the canvas, or null. */
+export async function decodeFromCanvas(
+  canvas: HTMLCanvasElement
+): Promise<string | null> {
+  const detector = getNativeDetector();
+  if (detector) {
+    try {
+      const codes = await detector.detect(canvas);
+      if (codes?.length) return codes[0].rawValue || null;
+      return null;
+    } catch (e) {
+      // Some browsers expose the API without support; use zxing instead
+      console.warn("BarcodeDetector failed, falling back to zxing", e);
+      nativeDetector = null;
+    }
+  }
+  return decodeWithZxing(canvas);
+}
+
+/** Decodes a code from an uploaded photo. */
+export async function decodeFromFile(file: File): Promise<string | null> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image();
+      el.onload = () => resolve(el);
+      el.onerror = () => reject(new Error("Could not read the image."));
+      el.src = url;
+    });
+
+    const scale = Math.min(
+      1,
+      MAX_DECODE_SIZE / Math.max(img.naturalWidth, img.naturalHeight)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return await decodeFromCanvas(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Checks a scanned value against the question's expected pattern
+ * (a regular expression). Null when there is no usable pattern.
+ */
+export function matchesExpectedPattern(
+  value: string | null | undefined,
+  pattern: string | null | undefined
+): boolean | null {
+  if (!pattern || !value) return null;
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return null;
+  }
+}
+
+export function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
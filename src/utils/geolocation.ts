@@ -0,0 +1,66 @@
+// src/utils/geolocation.ts
+// Browser Geolocation helpers for location questions and the start /
+// submit stamps on inspections.
+
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+  accuracy: number | null; // metres (radius of 68% confidence)
+  captured_at: string; // ISO timestamp
+};
+
+export function isGeolocationSupported() {
+  return typeof navigator !== "undefined" && !!navigator.geolocation;
+}
+
+/** One high-accuracy fix; rejects with a readable message. */
+export function getCurrentLocation(timeoutMs = 15000): Promise<GeoPoint> {
+  return new Promise((resolve, reject) => {
+    if (!isGeolocationSupported()) {
+      reject(new Error("Location is not available on this device."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) =>
+        resolve({
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: Number.isFinite(pos.coords.accuracy)
+            ? Math.round(pos.coords.accuracy)
+            : null,
+          captured_at: new Date(pos.timestamp || Date.now()).toISOString(),
+        }),
+      (err) => {
+        const messages: Record<number, string> = {
+          1: "Location permission was denied.",
+          2: "Your location could not be determined.",
+          3: "Timed out while getting your location.",
+        };
+        reject(new Error(messages[err.code] || err.message));
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 30000 }
+    );
+  });
+}
+
+// Stamps must never block saving, so failures just give null
+export async function tryGetCurrentLocation(
+  timeoutMs = 10000
+): Promise<GeoPoint | null> {
+  try {
+    return await getCurrentLocation(timeoutMs);
+  } catch (e) {
+    console.warn("Location stamp skipped", e);
+    return null;
+  }
+}
+
+export function formatGeoPoint(p: GeoPoint | null | undefined) {
+  if (!p) return "—";
+  const acc = p.accuracy !== null ? ` (±${p.accuracy} m)` : "";
+  return `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}${acc}`;
+}
+
+export function mapUrlFor(p: GeoPoint) {
+  return `https://www.openstreetmap.org/?mlat=${p.lat}&mlon=${p.lng}#map=18/${p.lat}/${p.lng}`;
+}
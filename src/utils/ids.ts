@@ -0,0 +1,7 @@
+// src/utils/ids.ts
+// Ids for sections, questions, options etc inside template definitions
+// and inspection items, e.g. "sec_k3j9x0ab".
+
+export function randomId(prefix: string) {
+  return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+}
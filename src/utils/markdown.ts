@@ -0,0 +1,125 @@
+// src/utils/markdown.ts
+// Tiny markdown subset for question guidance: headings, paragraphs,
+// bullet / numbered lists, **bold**, *italic*, `code` and [links](url).
+// Parsed into plain data so nothing is ever injected as HTML.
+
+export type MdInline = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+};
+
+export type MdBlock =
+  | { kind: "heading"; level: number; inlines: MdInline[] }
+  | { kind: "paragraph"; inlines: MdInline[] }
+  | { kind: "list"; ordered: boolean; items: MdInline[][] };
+
+const INLINE_PATTERN =
+  /(\*\*[^*]+\*\*|__[^_]+__|\*[^*]+\*|_[^_]+_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+// Only http(s) and mailto links are kept clickable
+function safeHref(url: string) {
+  return /^(https?:|mailto:)/i.test(url) ? url : undefined;
+}
+
+export function parseInline(text: string): MdInline[] {
+  const parts: MdInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const token = match[0];
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: text.slice(last, index) });
+
+    if (token.startsWith("**") || token.startsWith("__")) {
+      parts.push({ text: token.slice(2, -2), bold: true });
+    } else if (token.startsWith("`")) {
+      parts.push({ text: token.slice(1, -1), code: true });
+    } else if (token.startsWith("[")) {
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(token);
+      parts.push(
+        link
+          ? { text: link[1], href: safeHref(link[2]) }
+          : { text: token }
+      );
+    } else {
+      parts.push({ text: token.slice(1, -1), italic: true });
+    }
+    last = index + token.length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+}
+
+export function parseMarkdown(source: string | null | undefined): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: MdInline[][] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push({
+        kind: "paragraph",
+        inlines: parseInline(paragraph.join(" ")),
+      });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ kind: "list", ...list });
+      list = null;
+    }
+  };
+
+  for (const raw of (source || "").split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const bullet = /^[-*+]\s+(.*)$/.exec(line);
+    const numbered = /^\d+[.)]\s+(.*)$/.exec(line);
+
+    if (heading) {
+      flush();
+      blocks.push({
+        kind: "heading",
+        level: heading[1].length,
+        inlines: parseInline(heading[2]),
+      });
+    } else if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (paragraph.length || (list && list.ordered !== ordered)) flush();
+      if (!list) list = { ordered, items: [] };
+      list.items.push(parseInline((bullet || numbered)![1]));
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+const inlineText = (inlines: MdInline[]) =>
+  inlines
+    .map((i) => (i.href ? `${i.text} (${i.href})` : i.text))
+    .join("");
+
+/** Plain-text lines (for PDFs), with list markers kept. */
+export function markdownToPlainLines(source: string | null | undefined) {
+  const lines: string[] = [];
+  for (const block of parseMarkdown(source)) {
+    if (block.kind === "list") {
+      block.items.forEach((item, i) =>
+        lines.push(`${block.ordered ? `${i + 1}.` : "•"} ${inlineText(item)}`)
+      );
+    } else {
+      lines.push(inlineText(block.inlines));
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,261 @@
+// src/utils/pdfChecklistParser.ts
+// Offline fallback for PDF import: turns the text lines of a checklist PDF
+// into sections and questions with simple heuristics (headings, numbered
+// items, checkbox lines, answer columns). Nothing leaves the browser.
+
+export type PdfLine = {
+  text: string;
+  height: number; // font size of the line's largest text
+  page: number; // 1-based
+};
+
+export type ParsedQuestionType =
+  | "yes_no_na"
+  | "good_fair_poor"
+  | "multiple_choice"
+  | "text"
+  | "signature";
+
+export type ParsedQuestion = {
+  label: string;
+  type: ParsedQuestionType;
+  options: string[];
+};
+
+export type ParsedSection = {
+  title: string;
+  questions: ParsedQuestion[];
+};
+
+export type ParsedChecklist = {
+  name: string | null; // first heading, if it looks like a title
+  sections: ParsedSection[];
+  skippedLines: number; // lines that were neither headings nor questions
+};
+
+// Checkbox glyphs as they come out of common PDFs (incl. Wingdings' private
+// use characters), or typed boxes like "[ ]" and "( )"
+const CHECKBOX_PREFIX = /^(?:[☐☑☒□■▢❏❑❒◻◼○●◯\uF06F\uF071\uF0A8\uF0FE]|\[\s?[xX✓]?\s?\]|\(\s?\))\s*/;
+
+// 1.  1)  1.2  1.2.3  a)  A.  iv)
+const NUMBERED = /^(?:\d{1,3}(?:\.\d{1,3}){0,3}[.)]?|[a-zA-Z][.)]|[ivxIVX]{1,4}[.)])\s+/;
+
+const SECTION_WORD = /^(?:section|part|area|zone)\s+[\w.]+\s*[:.\-–]?\s*/i;
+
+const PAGE_NUMBER = /^(?:page\s*)?\d{1,3}(?:\s*(?:of|\/)\s*\d{1,3})?$/i;
+
+// Answer columns printed after the question text
+const ANSWER_SUFFIXES: {
+  pattern: RegExp;
+  type: ParsedQuestionType;
+  options?: string[];
+}[] = [
+  {
+    pattern: /(?:[☐□▢○]?\s*\b(?:yes|y)\b\s*\/?\s*[☐□▢○]?\s*\b(?:no|n)\b(?:\s*\/?\s*[☐□▢○]?\s*\b(?:n\/?a)\b)?)\s*$/i,
+    type: "yes_no_na",
+  },
+  {
+    pattern: /(?:[☐□▢○]?\s*\bgood\b\s*\/?\s*[☐□▢○]?\s*\bfair\b\s*\/?\s*[☐□▢○]?\s*\bpoor\b)\s*$/i,
+    type: "good_fair_poor",
+  },
+  {
+    pattern: /(?:[☐□▢○]?\s*\bpass\b\s*\/?\s*[☐□▢○]?\s*\bfail\b)\s*$/i,
+    type: "multiple_choice",
+    options: ["Pass", "Fail"],
+  },
+  {
+    pattern: /(?:[☐□▢○]?\s*\bsatisfactory\b\s*\/?\s*[☐□▢○]?\s*\bunsatisfactory\b)\s*$/i,
+    type: "multiple_choice",
+    options: ["Satisfactory", "Unsatisfactory"],
+  },
+];
+
+// Lines that are only an answer header, e.g. "Yes No N/A Comments"
+const ANSWER_HEADER = /^(?:(?:yes|no|n\/?a|y|n|good|fair|poor|pass|fail|comments?|notes?|remarks?|action|score|ok)\s*[|/]?\s*){2,}$/i;
+
+const FILL_IN = /_{3,}|\.{5,}/;
+// Question text that obviously carries on to the next line
+const CONTINUES = /(?:[,\-–(]|\b(?:and|or|of|the|to|in|for|with|are|is|a))$/i;
+const SIGNATURE = /\b(?:signature|signed(?: by)?|sign here)\b/i;
+
+function clean(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function median(values: number[]) {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export function isAllCaps(text: string) {
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  return letters.length >= 3 && letters === letters.toUpperCase();
+}
+
+// Text repeated on most pages (headers / footers) is not content
+function repeatedLines(lines: PdfLine[]) {
+  const pages = new Set(lines.map((l) => l.page)).size;
+  const repeated = new Set<string>();
+  if (pages < 3) return repeated;
+
+  const seenOn = new Map<string, Set<number>>();
+  for (const l of lines) {
+    const key = l.text.toLowerCase().replace(/\d+/g, "#");
+    if (!seenOn.has(key)) seenOn.set(key, new Set());
+    seenOn.get(key)!.add(l.page);
+  }
+  for (const [key, onPages] of seenOn) {
+    if (onPages.size >= Math.ceil(pages / 2)) repeated.add(key);
+  }
+  return repeated;
+}
+
+function answerSuffix(text: string) {
+  for (const suffix of ANSWER_SUFFIXES) {
+    const match = text.match(suffix.pattern);
+    // Keep some question text in front of the answer columns
+    if (match && match.index !== undefined && match.index > 3) {
+      return {
+        label: clean(text.slice(0, match.index)),
+        type: suffix.type,
+        options: suffix.options || [],
+      };
+    }
+  }
+  return null;
+}
+
+function stripLabel(text: string) {
+  return clean(
+    text
+      .replace(CHECKBOX_PREFIX, "")
+      .replace(NUMBERED, "")
+      .replace(/[:\s]*(?:_{3,}|\.{5,}).*$/, "")
+      .replace(/[:\s]+$/, "")
+  );
+}
+
+type LineKind = "heading" | "question" | "other";
+
+export function parsePdfChecklist(input: PdfLine[]): ParsedChecklist {
+  const raw = input
+    .map((l) => ({ ...l, text: clean(l.text) }))
+    .filter((l) => l.text);
+
+  const repeated = repeatedLines(raw);
+  const lines = raw.filter(
+    (l) =>
+      !PAGE_NUMBER.test(l.text) &&
+      !repeated.has(l.text.toLowerCase().replace(/\d+/g, "#"))
+  );
+
+  const bodySize = median(lines.map((l) => l.height).filter((h) => h > 0));
+
+  const sections: ParsedSection[] = [];
+  let name: string | null = null;
+  let current: ParsedSection | null = null;
+  let lastQuestion: ParsedQuestion | null = null;
+  let skippedLines = 0;
+
+  const ensureSection = () => {
+    if (!current) {
+      current = { title: "General", questions: [] };
+      sections.push(current);
+    }
+    return current;
+  };
+
+  const addQuestion = (q: ParsedQuestion) => {
+    if (!q.label) return;
+    ensureSection().questions.push(q);
+    lastQuestion = q;
+  };
+
+  for (const line of lines) {
+    const text = line.text;
+    if (ANSWER_HEADER.test(text)) continue;
+
+    const larger = bodySize > 0 && line.height >= bodySize * 1.15;
+    const hasCheckbox = CHECKBOX_PREFIX.test(text);
+    const numbered = NUMBERED.test(text);
+    const suffix = answerSuffix(text);
+    const endsWithQuestionMark = /\?\s*$/.test(text);
+    const short = text.length <= 70;
+    const signature = SIGNATURE.test(text) && short;
+
+    let kind: LineKind = "other";
+    if (suffix || hasCheckbox || endsWithQuestionMark || signature) {
+      kind = "question";
+    } else if (
+      short &&
+      (larger ||
+        SECTION_WORD.test(text) ||
+        (isAllCaps(text) && !FILL_IN.test(text)) ||
+        (/:$/.test(text) && !numbered))
+    ) {
+      kind = "heading";
+    } else if (numbered || FILL_IN.test(text)) {
+      kind = "question";
+    }
+
+    // "1. FIRE SAFETY" is a heading, "1.1 Extinguishers checked" a question
+    if (kind === "question" && numbered && !suffix && !hasCheckbox) {
+      const rest = stripLabel(text);
+      if (short && (larger || isAllCaps(rest)) && !endsWithQuestionMark) {
+        kind = "heading";
+      }
+    }
+
+    if (kind === "heading") {
+      const title = clean(
+        text.replace(NUMBERED, "").replace(SECTION_WORD, "").replace(/:$/, "")
+      ) || text;
+
+      // The first big line before any question is the document title
+      if (!name && !sections.length && line.page === 1 && larger) {
+        name = title;
+        continue;
+      }
+      current = { title, questions: [] };
+      sections.push(current);
+      lastQuestion = null;
+      continue;
+    }
+
+    if (kind === "question") {
+      if (suffix) {
+        addQuestion({
+          label: stripLabel(suffix.label),
+          type: suffix.type,
+          options: suffix.options,
+        });
+      } else if (signature) {
+        addQuestion({ label: stripLabel(text), type: "signature", options: [] });
+      } else if (FILL_IN.test(text)) {
+        addQuestion({ label: stripLabel(text), type: "text", options: [] });
+      } else {
+        addQuestion({ label: stripLabel(text), type: "yes_no_na", options: [] });
+      }
+      continue;
+    }
+
+    // Wrapped question text continues on the next line
+    const previous = lastQuestion as ParsedQuestion | null;
+    if (
+      previous &&
+      (/^[\p{Ll}(]/u.test(text) || CONTINUES.test(previous.label)) &&
+      previous.label.length + text.length < 300
+    ) {
+      previous.label = clean(`${previous.label} ${stripLabel(text)}`);
+      continue;
+    }
+    skippedLines++;
+  }
+
+  return {
+    name,
+    sections: sections.filter((s) => s.questions.length > 0),
+    skippedLines,
+  };
+}
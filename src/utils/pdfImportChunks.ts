@@ -0,0 +1,202 @@
+// src/utils/pdfImportChunks.ts
+// Large PDFs are sent to the AI in parts. The text is split at page and
+// heading boundaries, each part is converted on its own and the results
+// are merged back into one template.
+import { isAllCaps, median, PdfLine } from "@/utils/pdfChecklistParser";
+
+// Characters per AI request – small enough for the model to answer fully
+export const CHUNK_CHARS = 20000;
+
+export type AiQuestion = {
+  label?: string;
+  type?: string;
+  options?: string[];
+  allowNotes?: boolean;
+  allowPhoto?: boolean;
+  required?: boolean;
+};
+
+export type AiSection = {
+  title?: string;
+  questions?: AiQuestion[];
+};
+
+// What the server changed to make the model output valid
+export type AiCorrection = {
+  path: string; // e.g. "sections[2].questions[0].type"
+  message: string;
+};
+
+export type AiTemplate = {
+  name?: string;
+  description?: string;
+  sections?: AiSection[];
+  corrections?: AiCorrection[];
+};
+
+function startsBlock(line: PdfLine, bodySize: number) {
+  const text = line.text.trim();
+  if (!text || text.length > 70) return false;
+  if (bodySize > 0 && line.height >= bodySize * 1.15) return true;
+  return isAllCaps(text) || /^(?:section|part)\s+\w+/i.test(text);
+}
+
+/**
+ * Splits extracted lines into text parts of at most maxChars. Parts end at
+ * a page break or before a heading where possible; a block that is still
+ * too long is cut between lines.
+ */
+export function chunkPdfLines(
+  lines: PdfLine[],
+  maxChars: number = CHUNK_CHARS
+): string[] {
+  const bodySize = median(lines.map((l) => l.height).filter((h) => h > 0));
+
+  // Blocks: a page, or the part of a page from one heading to the next
+  const blocks: string[][] = [];
+  let block: string[] = [];
+  let page = lines[0]?.page ?? 1;
+  for (const line of lines) {
+    if (block.length && (line.page !== page || startsBlock(line, bodySize))) {
+      blocks.push(block);
+      block = [];
+    }
+    page = line.page;
+    block.push(line.text);
+  }
+  if (block.length) blocks.push(block);
+
+  const chunks: string[] = [];
+  let current = "";
+  const flush = () => {
+    if (current.trim()) chunks.push(current);
+    current = "";
+  };
+
+  for (const b of blocks) {
+    const text = b.join("\n") + "\n";
+    if (current.length + text.length <= maxChars) {
+      current += text;
+      continue;
+    }
+    flush();
+    if (text.length <= maxChars) {
+      current = text;
+      continue;
+    }
+    for (const line of b) {
+      if (current.length + line.length + 1 > maxChars) flush();
+      current += line.slice(0, maxChars - 1) + "\n";
+    }
+  }
+  flush();
+  return chunks;
+}
+
+function key(text: string | undefined) {
+  return (text || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/^[\d.\s)]+/, "") // "1.2 " numbering
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Merges the AI results of all parts. Sections with the same title (e.g. a
+ * section that runs over a part boundary) are combined and repeated
+ * questions within a section are dropped.
+ */
+export function mergeAiTemplates(parts: AiTemplate[]): AiTemplate {
+  const merged: AiTemplate = { sections: [] };
+  const sections = new Map<string, { section: AiSection; labels: Set<string> }>();
+
+  for (const part of parts) {
+    if (!merged.name && part.name) merged.name = part.name;
+    if (!merged.description && part.description) {
+      merged.description = part.description;
+    }
+
+    for (const sec of part.sections || []) {
+      const sectionKey = key(sec.title) || "section";
+      let entry = sections.get(sectionKey);
+      if (!entry) {
+        entry = {
+          section: { title: sec.title, questions: [] },
+          labels: new Set(),
+        };
+        sections.set(sectionKey, entry);
+        merged.sections!.push(entry.section);
+      }
+      for (const q of sec.questions || []) {
+        const labelKey = key(q.label);
+        if (!labelKey || entry.labels.has(labelKey)) continue;
+        entry.labels.add(labelKey);
+        entry.section.questions!.push(q);
+      }
+    }
+  }
+
+  merged.sections = merged.sections!.filter((s) => s.questions!.length);
+  return merged;
+}
+
+// --------------------------
+// Source text for review
+// --------------------------
+
+export type SourceSnippet = {
+  text: string;
+  page: number;
+};
+
+function words(text: string) {
+  return new Set(key(text).split(" ").filter((w) => w.length >= 3));
+}
+
+/**
+ * Finds the PDF line(s) each question most likely came from, so the user
+ * can compare the generated label with the original wording. Questions
+ * without a reasonable match are left out.
+ */
+export function matchSourceSnippets(
+  questions: { id: string; label: string }[],
+  lines: PdfLine[]
+): Record<string, SourceSnippet> {
+  // A question often wraps, so each line is also tried with the next one
+  const windows = lines.map((line, i) => {
+    const next = lines[i + 1];
+    const text =
+      next && next.page === line.page ? `${line.text} ${next.text}` : line.text;
+    return { line, text, words: words(text), own: words(line.text) };
+  });
+
+  const result: Record<string, SourceSnippet> = {};
+  for (const q of questions) {
+    const wanted = words(q.label);
+    if (!wanted.size) continue;
+
+    let best: SourceSnippet | null = null;
+    let bestScore = 0;
+    for (const w of windows) {
+      let hits = 0;
+      let ownHits = 0;
+      wanted.forEach((word) => {
+        if (w.words.has(word)) hits++;
+        if (w.own.has(word)) ownHits++;
+      });
+      // Prefer the single line when it matches as well as the pair
+      const score = Math.max(hits, ownHits + 0.01) / wanted.size;
+      if (score > bestScore) {
+        bestScore = score;
+        best = {
+          text: ownHits >= hits ? w.line.text : w.text,
+          page: w.line.page,
+        };
+      }
+    }
+    if (best && bestScore >= 0.5) result[q.id] = best;
+  }
+  return result;
+}
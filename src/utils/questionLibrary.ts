@@ -0,0 +1,222 @@
+// src/utils/questionLibrary.ts
+// Shared question bank. Templates keep their own copy of a library
+// question plus its library_id, so a library change can be pushed out.
+import { supabase } from "@/utils/supabaseClient";
+import { applyReviewAction, statusOf } from "@/utils/templateReviews";
+import {
+  canAccessTemplateSites,
+  loadTemplateSiteMap,
+  siteIdsFor,
+} from "@/utils/templateSites";
+
+export type LibraryQuestion = {
+  id: string;
+  label: string;
+  type: string;
+  question: Record<string, any>; // content fields (see LIBRARY_FIELDS)
+  created_by_name: string | null;
+  updated_at: string | null;
+};
+
+// Fields a library question controls; id, visibility etc stay per template
+const LIBRARY_FIELDS = [
+  "label",
+  "type",
+  "options",
+  "unit",
+  "min",
+  "max",
+  "decimals",
+  "response_set",
+  "expected_pattern",
+  "weight",
+  "optionScores",
+  "critical",
+  "allowNotes",
+  "allowPhoto",
+  "required",
+  "guidance",
+  "reference_images",
+  "translations",
+];
+
+export function libraryFieldsOf(q: Record<string, any>) {
+  const fields: Record<string, any> = {};
+  for (const key of LIBRARY_FIELDS) {
+    if (q[key] !== undefined) fields[key] = q[key];
+  }
+  return fields;
+}
+
+// Template question with the library content copied over it
+export function applyLibraryFields<T extends Record<string, any>>(
+  q: T,
+  lib: LibraryQuestion
+): T {
+  return { ...q, ...libraryFieldsOf(lib.question), library_id: lib.id };
+}
+
+function rowToLibraryQuestion(r: any): LibraryQuestion {
+  return {
+    id: r.id,
+    label: r.label || "",
+    type: r.type || "yes_no_na",
+    question: r.question || {},
+    created_by_name: r.created_by_name || null,
+    updated_at: r.updated_at || null,
+  };
+}
+
+export async function loadLibraryQuestions(): Promise<LibraryQuestion[]> {
+  const { data, error } = await supabase
+    .from("question_library")
+    .select("id, label, type, question, created_by_name, updated_at")
+    .order("label", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(rowToLibraryQuestion);
+}
+
+/**
+ * Creates a library entry from a template question, or updates the
+ * existing one when libraryId is given. Returns the library row.
+ */
+export async function saveLibraryQuestion(
+  q: Record<string, any>,
+  libraryId: string | null
+): Promise<LibraryQuestion> {
+  const fields = libraryFieldsOf(q);
+  const payload = {
+    label: fields.label || "",
+    type: fields.type || "yes_no_na",
+    question: fields,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (libraryId) {
+    const { data, error } = await supabase
+      .from("question_library")
+      .update(payload)
+      .eq("id", libraryId)
+      .select("id, label, type, question, created_by_name, updated_at")
+      .single();
+    if (error) throw error;
+    return rowToLibraryQuestion(data);
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+  const user = userData?.user;
+  let createdByName: string | null = user?.email || null;
+  if (user) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("name")
+      .eq("user_id", user.id)
+      .single();
+    createdByName = profile?.name || createdByName;
+  }
+
+  const { data, error } = await supabase
+    .from("question_library")
+    .insert({
+      ...payload,
+      created_by: user?.id || null,
+      created_by_name: createdByName,
+    })
+    .select("id, label, type, question, created_by_name, updated_at")
+    .single();
+  if (error) throw error;
+  return rowToLibraryQuestion(data);
+}
+
+export async function deleteLibraryQuestion(libraryId: string) {
+  const { error } = await supabase
+    .from("question_library")
+    .delete()
+    .eq("id", libraryId);
+  if (error) throw error;
+}
+
+// Site ids the current user may edit templates for; null means all.
+// Same rule as the templates list: managers only see their sites' templates
+async function editableSiteIds(): Promise<string[] | null> {
+  const { data: userData } = await supabase.auth.getUser();
+  const user = userData?.user;
+  if (!user) throw new Error("Not signed in.");
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("user_id", user.id)
+    .single();
+  if (profile?.role === "admin") return null;
+  if (profile?.role !== "manager") {
+    throw new Error("Only admins and managers can update templates.");
+  }
+
+  const { data: usites, error } = await supabase
+    .from("user_sites")
+    .select("site_id")
+    .eq("user_id", user.id);
+  if (error) throw error;
+  return (usites || []).map((r: any) => r.site_id).filter(Boolean);
+}
+
+/**
+ * Copies the library question into the working copy of every template the
+ * current user can edit that links to it. Nothing goes live directly:
+ * published templates are submitted for review and need approval like any
+ * other edit. Returns the number of templates updated / submitted.
+ */
+export async function pushLibraryQuestion(
+  lib: LibraryQuestion
+): Promise<{ updated: number; submitted: number }> {
+  const allowed = await editableSiteIds();
+
+  const { data: templates, error } = await supabase
+    .from("templates")
+    .select("id, site_id, status, is_published, definition");
+
+  if (error) throw error;
+
+  const siteMap = await loadTemplateSiteMap((templates || []).map((t) => t.id));
+
+  let updated = 0;
+  let submitted = 0;
+  for (const tpl of templates || []) {
+    const siteIds = siteIdsFor(siteMap, tpl.id, tpl.site_id || null);
+    if (!canAccessTemplateSites(siteIds, allowed)) continue;
+
+    const def = tpl.definition || { sections: [] };
+    let changed = false;
+    const sections = (def.sections || []).map((s: any) => ({
+      ...s,
+      questions: (s.questions || []).map((q: any) => {
+        if (q.library_id !== lib.id) return q;
+        changed = true;
+        return applyLibraryFields(q, lib);
+      }),
+    }));
+    if (!changed) continue;
+
+    const definition = { ...def, sections };
+    const { error: updateErr } = await supabase
+      .from("templates")
+      .update({ definition })
+      .eq("id", tpl.id);
+    if (updateErr) throw updateErr;
+    updated++;
+
+    // The live version stays as it is until the change is approved
+    if (statusOf(tpl) === "published") {
+      await applyReviewAction(
+        tpl.id,
+        "submitted",
+        `Library question "${lib.label}" updated.`
+      );
+      submitted++;
+    }
+  }
+
+  return { updated, submitted };
+}
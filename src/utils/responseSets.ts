@@ -0,0 +1,127 @@
+// src/utils/responseSets.ts
+// Org-level answer scales ("Compliant / Minor / Major", "Safe / At risk").
+// Questions store a snapshot of the set so template versions stay frozen.
+import { supabase } from "@/utils/supabaseClient";
+
+export type ResponseColor =
+  | "green"
+  | "lime"
+  | "amber"
+  | "orange"
+  | "red"
+  | "blue"
+  | "purple"
+  | "gray";
+
+export type ResponseOption = {
+  key: string;
+  label: string;
+  color: ResponseColor;
+  score: number | null; // null = not scored (like N/A)
+};
+
+export type ResponseSet = {
+  id: string;
+  name: string;
+  options: ResponseOption[];
+};
+
+type ColorStyle = {
+  label: string;
+  selected: string; // button classes when chosen
+  idle: string;
+  rgb: [number, number, number]; // for PDFs
+};
+
+// Full class names so Tailwind keeps them in the build
+export const RESPONSE_COLORS: Record<ResponseColor, ColorStyle> = {
+  green: {
+    label: "Green",
+    selected: "bg-emerald-600 border-emerald-600 text-white",
+    idle: "bg-white border-emerald-300 text-emerald-700 hover:bg-emerald-50",
+    rgb: [5, 150, 105],
+  },
+  lime: {
+    label: "Lime",
+    selected: "bg-lime-600 border-lime-600 text-white",
+    idle: "bg-white border-lime-300 text-lime-700 hover:bg-lime-50",
+    rgb: [101, 163, 13],
+  },
+  amber: {
+    label: "Amber",
+    selected: "bg-amber-500 border-amber-500 text-white",
+    idle: "bg-white border-amber-300 text-amber-700 hover:bg-amber-50",
+    rgb: [217, 119, 6],
+  },
+  orange: {
+    label: "Orange",
+    selected: "bg-orange-600 border-orange-600 text-white",
+    idle: "bg-white border-orange-300 text-orange-700 hover:bg-orange-50",
+    rgb: [234, 88, 12],
+  },
+  red: {
+    label: "Red",
+    selected: "bg-rose-600 border-rose-600 text-white",
+    idle: "bg-white border-rose-300 text-rose-700 hover:bg-rose-50",
+    rgb: [190, 18, 60],
+  },
+  blue: {
+    label: "Blue",
+    selected: "bg-sky-600 border-sky-600 text-white",
+    idle: "bg-white border-sky-300 text-sky-700 hover:bg-sky-50",
+    rgb: [2, 132, 199],
+  },
+  purple: {
+    label: "Purple",
+    selected: "bg-purple-700 border-purple-700 text-white",
+    idle: "bg-white border-purple-300 text-purple-700 hover:bg-purple-50",
+    rgb: [126, 34, 206],
+  },
+  gray: {
+    label: "Gray",
+    selected: "bg-gray-600 border-gray-600 text-white",
+    idle: "bg-white border-gray-300 text-gray-700 hover:bg-gray-50",
+    rgb: [75, 85, 99],
+  },
+};
+
+export function colorStyle(color: string | null | undefined) {
+  return RESPONSE_COLORS[color as ResponseColor] || RESPONSE_COLORS.gray;
+}
+
+// Score of an option as a 0..1 fraction of the best option in the set
+export function responseFraction(
+  options: ResponseOption[],
+  key: string | null
+): number | null {
+  const option = options.find((o) => o.key === key);
+  if (!option || typeof option.score !== "number") return null;
+  const best = Math.max(
+    ...options.map((o) => (typeof o.score === "number" ? o.score : 0))
+  );
+  if (best <= 0) return null;
+  return Math.max(0, option.score) / best;
+}
+
+export function normaliseResponseSet(r: any): ResponseSet {
+  return {
+    id: r.id,
+    name: r.name || "",
+    options: (r.options || []).map((o: any) => ({
+      key: o.key,
+      label: o.label || "",
+      color: o.color || "gray",
+      score: typeof o.score === "number" ? o.score : null,
+    })),
+  };
+}
+
+export async function loadResponseSets(): Promise<ResponseSet[]> {
+  const { data, error } = await supabase
+    .from("response_sets")
+    .select("id, name, options")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(normaliseResponseSet);
+}
@@ -0,0 +1,262 @@
+// src/utils/schedules.ts
+// Recurring inspection schedules. There is no server cron: any signed-in
+// client that opens Inspections / Dashboard tops up the due inspections,
+// and a (schedule_id, site_id, due_at) check keeps that idempotent.
+import { supabase } from "@/utils/supabaseClient";
+
+export type ScheduleFrequency = "daily" | "weekly" | "monthly" | "custom";
+
+export type ScheduleAssignee = {
+  user_id: string;
+  name: string;
+};
+
+export type InspectionSchedule = {
+  id: string;
+  template_id: string;
+  template_name: string;
+  site_ids: string[]; // empty = one inspection with no site
+  assignees: ScheduleAssignee[];
+  frequency: ScheduleFrequency;
+  interval_days: number | null; // custom only
+  start_date: string; // YYYY-MM-DD
+  end_date: string | null;
+  due_time: string; // HH:MM, local time
+  is_active: boolean;
+  last_generated_on: string | null; // YYYY-MM-DD
+};
+
+export const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  custom: "Every N days",
+};
+
+// Older missed occurrences are skipped rather than flooding the list
+const MAX_CATCH_UP = 14;
+
+export function toDateKey(d: Date) {
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+function parseDateKey(key: string) {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+}
+
+function addDays(d: Date, days: number) {
+  const next = new Date(d);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+// Same day of month as the start date, clamped to shorter months
+function addMonths(start: Date, months: number) {
+  const target = new Date(start.getFullYear(), start.getMonth() + months, 1);
+  const lastDay = new Date(
+    target.getFullYear(),
+    target.getMonth() + 1,
+    0
+  ).getDate();
+  target.setDate(Math.min(start.getDate(), lastDay));
+  return target;
+}
+
+function occurrenceAt(s: InspectionSchedule, start: Date, n: number) {
+  switch (s.frequency) {
+    case "daily":
+      return addDays(start, n);
+    case "weekly":
+      return addDays(start, n * 7);
+    case "monthly":
+      return addMonths(start, n);
+    case "custom":
+      return addDays(start, n * Math.max(1, s.interval_days || 1));
+    default:
+      return addDays(start, n);
+  }
+}
+
+/** Occurrence dates (YYYY-MM-DD) from `from` up to and including `to`. */
+export function occurrencesBetween(
+  s: InspectionSchedule,
+  from: string,
+  to: string
+): string[] {
+  const start = parseDateKey(s.start_date);
+  const last = s.end_date && s.end_date < to ? s.end_date : to;
+  const dates: string[] = [];
+  for (let n = 0; n < 5000; n++) {
+    const key = toDateKey(occurrenceAt(s, start, n));
+    if (key > last) break;
+    if (key >= from) dates.push(key);
+  }
+  return dates;
+}
+
+export function nextOccurrence(s: InspectionSchedule): string | null {
+  const today = toDateKey(new Date());
+  const horizon = toDateKey(addDays(new Date(), 400));
+  return occurrencesBetween(s, today, horizon)[0] || null;
+}
+
+export function dueAtFor(dateKey: string, dueTime: string) {
+  const [h, m] = (dueTime || "09:00").split(":").map(Number);
+  const d = parseDateKey(dateKey);
+  d.setHours(h || 0, m || 0, 0, 0);
+  return d.toISOString();
+}
+
+export function mapScheduleRow(r: any): InspectionSchedule {
+  return {
+    id: r.id,
+    template_id: r.template_id,
+    template_name: r.template_name || "",
+    site_ids: r.site_ids || [],
+    assignees: r.assignees || [],
+    frequency: (r.frequency as ScheduleFrequency) || "weekly",
+    interval_days:
+      typeof r.interval_days === "number" ? r.interval_days : null,
+    start_date: r.start_date,
+    end_date: r.end_date || null,
+    due_time: (r.due_time || "09:00").slice(0, 5),
+    is_active: r.is_active !== false,
+    last_generated_on: r.last_generated_on || null,
+  };
+}
+
+/**
+ * Creates in-progress inspections for every active schedule occurrence up
+ * to today that has not been generated yet. Returns how many were created.
+ */
+export async function generateDueInspections(): Promise<number> {
+  const today = toDateKey(new Date());
+
+  const { data: rows, error } = await supabase
+    .from("inspection_schedules")
+    .select(
+      "id, template_id, template_name, site_ids, assignees, frequency, interval_days, start_date, end_date, due_time, is_active, last_generated_on"
+    )
+    .eq("is_active", true);
+
+  if (error) throw error;
+
+  const schedules = (rows || [])
+    .map(mapScheduleRow)
+    .filter((s) => !s.last_generated_on || s.last_generated_on < today);
+  if (!schedules.length) return 0;
+
+  const [{ data: sites }, { data: templates }] = await Promise.all([
+    supabase.from("sites").select("id, name"),
+    supabase
+      .from("templates")
+      .select("id, status, current_version")
+      .in("id", schedules.map((s) => s.template_id)),
+  ]);
+  const siteName = (id: string) =>
+    (sites || []).find((x: any) => x.id === id)?.name || "Unknown site";
+
+  let created = 0;
+  for (const s of schedules) {
+    const from = s.last_generated_on
+      ? toDateKey(addDays(parseDateKey(s.last_generated_on), 1))
+      : s.start_date;
+    const template = (templates || []).find(
+      (t: any) => t.id === s.template_id
+    );
+    // Nothing approved to inspect against yet: try again next time, so
+    // the occurrences are created once the template is published
+    if (
+      template &&
+      template.status !== "retired" &&
+      template.current_version == null
+    ) {
+      continue;
+    }
+
+    // Retired templates stop producing inspections
+    const dates =
+      template?.status === "retired"
+        ? []
+        : occurrencesBetween(s, from, today).slice(-MAX_CATCH_UP);
+
+    if (dates.length) {
+      const dueAts = dates.map((d) => dueAtFor(d, s.due_time));
+      const { data: existing, error: existingErr } = await supabase
+        .from("inspections")
+        .select("site_id, due_at")
+        .eq("schedule_id", s.id)
+        .in("due_at", dueAts);
+      if (existingErr) throw existingErr;
+
+      const seen = new Set(
+        (existing || []).map(
+          (e: any) => `${e.site_id || ""}|${new Date(e.due_at).toISOString()}`
+        )
+      );
+      const version = template?.current_version ?? null;
+      const owner = s.assignees[0] || null;
+      const siteIds: (string | null)[] = s.site_ids.length
+        ? s.site_ids
+        : [null];
+
+      const inserts: any[] = [];
+      for (const dueAt of dueAts) {
+        for (const siteId of siteIds) {
+          if (seen.has(`${siteId || ""}|${dueAt}`)) continue;
+          inserts.push({
+            template_id: s.template_id,
+            template_name: s.template_name,
+            template_version: version,
+            site_id: siteId,
+            site: siteId ? siteName(siteId) : null,
+            status: "in_progress",
+            started_at: null, // set when someone first opens it
+            submitted_at: null,
+            score: null,
+            items: null,
+            owner_user_id: owner ? owner.user_id : null,
+            owner_name: s.assignees.map((a) => a.name).join(", ") || null,
+            schedule_id: s.id,
+            due_at: dueAt,
+          });
+        }
+      }
+
+      // Another client may be generating the same schedule right now.
+      // Rows go in one at a time so the unique index only rejects its
+      // duplicates (23505) instead of the whole batch.
+      for (const row of inserts) {
+        const { error: insertErr } = await supabase
+          .from("inspections")
+          .insert(row);
+        if (insertErr && insertErr.code !== "23505") throw insertErr;
+        if (!insertErr) created++;
+      }
+    }
+
+    const { error: updateErr } = await supabase
+      .from("inspection_schedules")
+      .update({ last_generated_on: today })
+      .eq("id", s.id);
+    if (updateErr) throw updateErr;
+  }
+
+  return created;
+}
+
+export type DueState = "overdue" | "due_today" | "upcoming" | null;
+
+// Only open inspections with a due date can be due / overdue
+export function dueStateOf(insp: {
+  status: string;
+  due_at?: string | null;
+}): DueState {
+  if (!insp.due_at || insp.status === "submitted") return null;
+  const due = new Date(insp.due_at);
+  if (due.getTime() < Date.now()) return "overdue";
+  return toDateKey(due) === toDateKey(new Date()) ? "due_today" : "upcoming";
+}
@@ -0,0 +1,377 @@
+// src/utils/spreadsheetImport.ts
+// Turns a CSV / XLSX checklist (one question per row) into a template
+// definition. Runs entirely in the browser; no AI involved.
+import { randomId } from "@/utils/ids";
+
+export type ImportField =
+  | "section"
+  | "question"
+  | "type"
+  | "options"
+  | "required"
+  | "allowPhoto"
+  | "allowNotes"
+  | "guidance";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "section", label: "Section" },
+  { field: "question", label: "Question" },
+  { field: "type", label: "Type" },
+  { field: "options", label: "Options" },
+  { field: "required", label: "Required" },
+  { field: "allowPhoto", label: "Allow photo" },
+  { field: "allowNotes", label: "Allow notes" },
+  { field: "guidance", label: "Guidance" },
+];
+
+// field -> column index (null = not in the sheet)
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportedQuestionType =
+  | "yes_no_na"
+  | "good_fair_poor"
+  | "multiple_choice"
+  | "text"
+  | "signature"
+  | "number"
+  | "scan"
+  | "location";
+
+export type ImportedQuestion = {
+  id: string;
+  label: string;
+  type: ImportedQuestionType;
+  options: string[];
+  allowNotes: boolean;
+  allowPhoto: boolean;
+  required: boolean;
+  guidance: string;
+};
+
+export type ImportedSection = {
+  id: string;
+  title: string;
+  image_data_url: null;
+  questions: ImportedQuestion[];
+};
+
+export type ImportResult = {
+  definition: { sections: ImportedSection[] };
+  warnings: string[]; // "Row 7: …"
+};
+
+export type SpreadsheetRows = {
+  rows: string[][];
+  rowNumbers: number[]; // row in the file for each entry, counting from 1
+};
+
+// Header names we recognise, lower case without spaces / punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  section: ["section", "sectiontitle", "area", "category", "group"],
+  question: ["question", "questiontext", "label", "item", "checkpoint"],
+  type: ["type", "questiontype", "answertype", "responsetype"],
+  options: ["options", "choices", "answers", "values"],
+  required: ["required", "mandatory"],
+  allowPhoto: ["allowphoto", "photo", "photos", "allowphotos"],
+  allowNotes: ["allownotes", "notes", "comments", "allowcomments"],
+  guidance: ["guidance", "help", "hint", "instructions"],
+};
+
+const TYPE_ALIASES: Record<string, ImportedQuestionType> = {
+  yesnona: "yes_no_na",
+  yesno: "yes_no_na",
+  ynna: "yes_no_na",
+  yn: "yes_no_na",
+  goodfairpoor: "good_fair_poor",
+  gfp: "good_fair_poor",
+  rating: "good_fair_poor",
+  multiplechoice: "multiple_choice",
+  choice: "multiple_choice",
+  select: "multiple_choice",
+  dropdown: "multiple_choice",
+  text: "text",
+  textonly: "text",
+  freetext: "text",
+  comment: "text",
+  number: "number",
+  numeric: "number",
+  reading: "number",
+  measurement: "number",
+  signature: "signature",
+  sign: "signature",
+  scan: "scan",
+  barcode: "scan",
+  qr: "scan",
+  qrcode: "scan",
+  location: "location",
+  gps: "location",
+};
+
+function compact(text: string) {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// --------------------------
+// Reading files
+// --------------------------
+
+// Picks the delimiter that splits the first line into the most columns
+function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  let best = ",";
+  let bestCount = 0;
+  for (const d of [",", ";", "\t"]) {
+    const count = firstLine.split(d).length;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** RFC 4180-style CSV parsing (quoted fields, "" escapes, newlines). */
+export function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function cellToText(cell: unknown): string {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+}
+
+// Drops fully empty rows and pads rows to the same width, keeping the
+// original row numbers for warnings
+function tidyRows(rows: unknown[][]): SpreadsheetRows {
+  const cleaned = rows
+    .map((r, i) => ({ cells: r.map(cellToText), rowNumber: i + 1 }))
+    .filter((r) => r.cells.some(Boolean));
+  const width = Math.max(0, ...cleaned.map((r) => r.cells.length));
+  return {
+    rows: cleaned.map((r) => [
+      ...r.cells,
+      ...Array(width - r.cells.length).fill(""),
+    ]),
+    rowNumbers: cleaned.map((r) => r.rowNumber),
+  };
+}
+
+export function isExcelFile(file: File) {
+  return /\.xlsx$/i.test(file.name);
+}
+
+/** Sheet names of an XLSX file (CSV files have none). */
+export async function spreadsheetSheetNames(file: File): Promise<string[]> {
+  if (!isExcelFile(file)) return [];
+  const { readSheetNames } = await import("read-excel-file");
+  return readSheetNames(file);
+}
+
+/** All non-empty rows of a CSV file or one XLSX sheet, as text. */
+export async function readSpreadsheet(
+  file: File,
+  sheet?: string
+): Promise<SpreadsheetRows> {
+  if (isExcelFile(file)) {
+    // Loaded on first use so other pages don't pay for it
+    const { default: readXlsxFile } = await import("read-excel-file");
+    const rows = await readXlsxFile(file, sheet ? { sheet } : undefined);
+    return tidyRows(rows as unknown[][]);
+  }
+  const text = (await file.text()).replace(/^\uFEFF/, ""); // Excel's BOM
+  return tidyRows(parseCsv(text));
+}
+
+// --------------------------
+// Mapping rows to a definition
+// --------------------------
+
+export function emptyMapping(): ColumnMapping {
+  return {
+    section: null,
+    question: null,
+    type: null,
+    options: null,
+    required: null,
+    allowPhoto: null,
+    allowNotes: null,
+    guidance: null,
+  };
+}
+
+/** Mapping guessed from the header row. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping = emptyMapping();
+  headers.forEach((h, index) => {
+    const key = compact(h);
+    for (const { field } of IMPORT_FIELDS) {
+      if (mapping[field] === null && HEADER_ALIASES[field].includes(key)) {
+        mapping[field] = index;
+        return;
+      }
+    }
+  });
+  return mapping;
+}
+
+// Files without recognisable headers: columns in IMPORT_FIELDS order
+export function positionalMapping(columnCount: number): ColumnMapping {
+  const mapping = emptyMapping();
+  IMPORT_FIELDS.forEach(({ field }, index) => {
+    if (index < columnCount) mapping[field] = index;
+  });
+  return mapping;
+}
+
+export function parseQuestionType(text: string): ImportedQuestionType | null {
+  const key = compact(text);
+  if (!key) return null;
+  return TYPE_ALIASES[key] || null;
+}
+
+function parseFlag(text: string, fallback: boolean) {
+  const value = text.trim().toLowerCase();
+  if (!value) return fallback;
+  if (["y", "yes", "true", "1", "x", "✓"].includes(value)) return true;
+  if (["n", "no", "false", "0", "-"].includes(value)) return false;
+  return fallback;
+}
+
+// "A | B | C", "A; B" or "A, B"
+function parseOptions(text: string) {
+  const separator = /[|;]/.test(text) ? /[|;]/ : /,/;
+  return text
+    .split(separator)
+    .map((o) => o.trim())
+    .filter(Boolean);
+}
+
+export function rowsToDefinition(
+  { rows, rowNumbers }: SpreadsheetRows,
+  mapping: ColumnMapping,
+  firstRowIsHeader: boolean
+): ImportResult {
+  const warnings: string[] = [];
+  const sections: ImportedSection[] = [];
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : (row[index] || "").trim();
+  };
+
+  let current: ImportedSection | null = null;
+
+  rows.forEach((row, i) => {
+    if (firstRowIsHeader && i === 0) return;
+    const rowNumber = rowNumbers[i] ?? i + 1;
+
+    // A section name switches section (rows with the same name are
+    // grouped even if not adjacent); blank continues the last one
+    const sectionTitle = cell(row, "section");
+    if (sectionTitle && sectionTitle !== current?.title) {
+      current = sections.find((s) => s.title === sectionTitle) || null;
+      if (!current) {
+        current = {
+          id: randomId("sec"),
+          title: sectionTitle,
+          image_data_url: null,
+          questions: [],
+        };
+        sections.push(current);
+      }
+    }
+
+    const label = cell(row, "question");
+    if (!label) return;
+
+    if (!current) {
+      current = {
+        id: randomId("sec"),
+        title: "Section 1",
+        image_data_url: null,
+        questions: [],
+      };
+      sections.push(current);
+    }
+
+    const optionsText = cell(row, "options");
+    const options = optionsText ? parseOptions(optionsText) : [];
+    const typeText = cell(row, "type");
+    let type = parseQuestionType(typeText);
+    if (!type) {
+      type = options.length ? "multiple_choice" : "yes_no_na";
+      if (typeText) {
+        warnings.push(
+          `Row ${rowNumber}: unknown type "${typeText}", using ${
+            type === "multiple_choice" ? "multiple choice" : "Yes / No / N/A"
+          }.`
+        );
+      }
+    }
+    if (options.length && type !== "multiple_choice") {
+      warnings.push(
+        `Row ${rowNumber}: options ignored for a ${typeText || type} question.`
+      );
+    }
+
+    current.questions.push({
+      id: randomId("q"),
+      label,
+      type,
+      options: type === "multiple_choice" ? options : [],
+      allowNotes: parseFlag(cell(row, "allowNotes"), true),
+      allowPhoto: parseFlag(cell(row, "allowPhoto"), true),
+      required: parseFlag(cell(row, "required"), false),
+      guidance: cell(row, "guidance"),
+    });
+  });
+
+  return { definition: { sections }, warnings };
+}
+
+// Example file offered in the import dialog
+export const SAMPLE_CSV = [
+  "section,question,type,options,required,allowPhoto",
+  "Housekeeping,Walkways clear of obstructions,yes_no_na,,yes,yes",
+  "Housekeeping,General cleanliness,good_fair_poor,,yes,yes",
+  "Fire safety,Extinguisher type,multiple_choice,CO2 | Foam | Powder,yes,no",
+  "Fire safety,Extinguisher pressure,number,,yes,no",
+  "Fire safety,Extinguisher tag,scan,,no,no",
+  "Sign-off,Inspector signature,signature,,yes,no",
+].join("\n");
@@ -0,0 +1,172 @@
+// src/utils/templateReviews.ts
+// Template lifecycle: draft -> in_review -> published -> retired.
+// templates.status describes the working copy, while is_published +
+// current_version say which approved version inspections use. Every
+// transition is logged in template_reviews with an optional comment.
+import { supabase } from "@/utils/supabaseClient";
+import { createTemplateVersion } from "@/utils/templateVersions";
+
+export type TemplateStatus = "draft" | "in_review" | "published" | "retired";
+
+export type ReviewAction =
+  | "submitted"
+  | "withdrawn"
+  | "approved"
+  | "rejected"
+  | "retired"
+  | "restored";
+
+export type TemplateReview = {
+  id: string;
+  template_id: string;
+  action: ReviewAction;
+  comment: string | null;
+  version: number | null;
+  created_by_name: string | null;
+  created_at: string;
+};
+
+export const STATUS_LABELS: Record<TemplateStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  published: "Published",
+  retired: "Retired",
+};
+
+// Full class names so Tailwind keeps them in the build
+export const STATUS_STYLES: Record<TemplateStatus, string> = {
+  draft: "bg-amber-50 text-amber-700 border border-amber-100",
+  in_review: "bg-sky-50 text-sky-700 border border-sky-100",
+  published: "bg-emerald-50 text-emerald-700 border border-emerald-100",
+  retired: "bg-gray-100 text-gray-500 border border-gray-200",
+};
+
+export const ACTION_LABELS: Record<ReviewAction, string> = {
+  submitted: "Submitted for review",
+  withdrawn: "Withdrawn from review",
+  approved: "Approved",
+  rejected: "Changes requested",
+  retired: "Retired",
+  restored: "Restored to draft",
+};
+
+// Older rows have no status yet; fall back to the publish flag
+export function statusOf(row: {
+  status?: string | null;
+  is_published?: boolean | null;
+}): TemplateStatus {
+  if (row.status && row.status in STATUS_LABELS) {
+    return row.status as TemplateStatus;
+  }
+  return row.is_published ? "published" : "draft";
+}
+
+// Where each action moves the working copy
+const NEXT_STATUS: Record<ReviewAction, TemplateStatus> = {
+  submitted: "in_review",
+  withdrawn: "draft",
+  approved: "published",
+  rejected: "draft",
+  retired: "retired",
+  restored: "draft",
+};
+
+async function currentUserName() {
+  const { data: userData } = await supabase.auth.getUser();
+  const user = userData?.user;
+  let name: string | null = user?.email || null;
+  if (user) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("name")
+      .eq("user_id", user.id)
+      .single();
+    name = profile?.name || name;
+  }
+  return { userId: user?.id || null, name };
+}
+
+/**
+ * Applies a lifecycle action to a template and logs it. Approving
+ * snapshots the working definition as the next published version.
+ */
+export async function applyReviewAction(
+  templateId: string,
+  action: ReviewAction,
+  comment: string | null
+): Promise<{
+  status: TemplateStatus;
+  is_published: boolean;
+  current_version: number | null;
+}> {
+  const { data: tpl, error: tplErr } = await supabase
+    .from("templates")
+    .select("name, description, definition, is_published, current_version")
+    .eq("id", templateId)
+    .single();
+  if (tplErr) throw tplErr;
+
+  const status = NEXT_STATUS[action];
+  let isPublished = !!tpl.is_published;
+  let version: number | null =
+    typeof tpl.current_version === "number" ? tpl.current_version : null;
+
+  if (action === "approved") {
+    version = await createTemplateVersion(templateId, {
+      name: tpl.name,
+      description: tpl.description ?? null,
+      definition: tpl.definition || { sections: [] },
+    });
+    isPublished = true;
+  } else if (action === "retired") {
+    isPublished = false;
+  }
+
+  const { error: updateErr } = await supabase
+    .from("templates")
+    .update({ status, is_published: isPublished })
+    .eq("id", templateId);
+  if (updateErr) throw updateErr;
+
+  const { userId, name } = await currentUserName();
+  const { error: logErr } = await supabase.from("template_reviews").insert({
+    template_id: templateId,
+    action,
+    comment: comment?.trim() || null,
+    version: action === "approved" ? version : null,
+    created_by: userId,
+    created_by_name: name,
+  });
+  if (logErr) throw logErr;
+
+  return { status, is_published: isPublished, current_version: version };
+}
+
+/** Review history, newest first (optionally for some templates only). */
+export async function loadTemplateReviews(
+  templateIds?: string[]
+): Promise<TemplateReview[]> {
+  let query = supabase
+    .from("template_reviews")
+    .select(
+      "id, template_id, action, comment, version, created_by_name, created_at"
+    )
+    .order("created_at", { ascending: false });
+  if (templateIds) {
+    if (!templateIds.length) return [];
+    query = query.in("template_id", templateIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((r: any) => ({
+    id: r.id,
+    template_id: r.template_id,
+    action: r.action as ReviewAction,
+    comment: r.comment || null,
+    version: typeof r.version === "number" ? r.version : null,
+    created_by_name: r.created_by_name || null,
+    created_at: r.created_at,
+  }));
+}
@@ -0,0 +1,88 @@
+// src/utils/templateSearch.ts
+// Tags, search and usage counts for the templates list. The database keeps
+// templates.search_text (name, description, section titles and question
+// labels) up to date, so the list doesn't need to load every definition.
+import { supabase } from "@/utils/supabaseClient";
+
+export type TemplateSort = "name" | "updated" | "usage";
+
+export const SORT_LABELS: Record<TemplateSort, string> = {
+  name: "Name",
+  updated: "Last edited",
+  usage: "Most used",
+};
+
+export type TemplateUsage = {
+  inspection_count: number;
+  last_used_at: string | null;
+};
+
+// "Fire, HACCP ,fire" -> ["fire", "haccp"]
+export function parseTags(text: string): string[] {
+  const tags: string[] = [];
+  for (const part of text.split(",")) {
+    const tag = part.trim().toLowerCase().replace(/\s+/g, " ");
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+function normalise(text: string) {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/** Every word of the query must appear somewhere in the text. */
+export function matchesSearch(haystack: string, query: string) {
+  const terms = normalise(query).split(/\s+/).filter(Boolean);
+  if (!terms.length) return true;
+  const text = normalise(haystack);
+  return terms.every((t) => text.includes(t));
+}
+
+// Tag -> number of templates using it, most common first
+export function tagCounts(rows: { tags: string[] }[]) {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    for (const tag of row.tags) counts.set(tag, (counts.get(tag) || 0) + 1);
+  }
+  return Array.from(counts.entries()).sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+  );
+}
+
+/** Inspection counts per template (from the template_usage view). */
+export async function loadTemplateUsage(): Promise<Map<string, TemplateUsage>> {
+  const { data, error } = await supabase
+    .from("template_usage")
+    .select("template_id, inspection_count, last_used_at");
+
+  if (error) throw error;
+
+  const map = new Map<string, TemplateUsage>();
+  for (const r of data || []) {
+    map.set(r.template_id, {
+      inspection_count: Number(r.inspection_count) || 0,
+      last_used_at: r.last_used_at || null,
+    });
+  }
+  return map;
+}
+
+export async function loadTemplateCategories(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("templates")
+    .select("category")
+    .not("category", "is", null);
+
+  if (error) throw error;
+
+  const set = new Set<string>();
+  for (const r of data || []) {
+    const c = (r.category || "").trim();
+    if (c) set.add(c);
+  }
+  return Array.from(set).sort((a, b) => a.localeCompare(b));
+}
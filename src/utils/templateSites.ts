@@ -0,0 +1,66 @@
+// src/utils/templateSites.ts
+// Many-to-many template <-> site assignment (template_sites table).
+// A template with no rows is global (all sites). Older templates that only
+// have templates.site_id are treated as assigned to that one site.
+import { supabase } from "@/utils/supabaseClient";
+
+/** template_id -> site ids, for the given templates (or all). */
+export async function loadTemplateSiteMap(
+  templateIds?: string[]
+): Promise<Map<string, string[]>> {
+  let query = supabase.from("template_sites").select("template_id, site_id");
+  if (templateIds) {
+    if (!templateIds.length) return new Map();
+    query = query.in("template_id", templateIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const map = new Map<string, string[]>();
+  for (const row of data || []) {
+    const tid = row.template_id as string;
+    const sid = row.site_id as string;
+    if (!tid || !sid) continue;
+    if (!map.has(tid)) map.set(tid, []);
+    map.get(tid)!.push(sid);
+  }
+  return map;
+}
+
+export function siteIdsFor(
+  map: Map<string, string[]>,
+  templateId: string,
+  legacySiteId: string | null
+): string[] {
+  const ids = map.get(templateId);
+  if (ids && ids.length) return ids;
+  return legacySiteId ? [legacySiteId] : [];
+}
+
+// Global templates are visible to everyone, others need a shared site
+export function canAccessTemplateSites(
+  siteIds: string[],
+  allowed: string[] | null
+) {
+  if (!siteIds.length || allowed === null) return true;
+  return siteIds.some((id) => allowed.includes(id));
+}
+
+/** Replaces the template's site links with siteIds. */
+export async function saveTemplateSites(templateId: string, siteIds: string[]) {
+  const { error: delErr } = await supabase
+    .from("template_sites")
+    .delete()
+    .eq("template_id", templateId);
+  if (delErr) throw delErr;
+
+  if (siteIds.length > 0) {
+    const { error: insertErr } = await supabase
+      .from("template_sites")
+      .insert(
+        siteIds.map((siteId) => ({ template_id: templateId, site_id: siteId }))
+      );
+    if (insertErr) throw insertErr;
+  }
+}
@@ -0,0 +1,257 @@
+// src/utils/templateValidation.ts
+// Checks a template definition before it is published. Errors block
+// publishing, warnings are shown but can be ignored.
+import type { VisibilityRule } from "@/utils/visibility";
+import { isValidPattern } from "@/utils/barcode";
+import { BASE_LANGUAGE, languageLabel } from "@/utils/translations";
+
+export type IssueLevel = "error" | "warning";
+
+export type ValidationIssue = {
+  level: IssueLevel;
+  message: string;
+  section_id: string | null; // null = whole template
+  question_id: string | null;
+  where: string; // "Section › Question", for alerts
+};
+
+// Minimal shapes so the editor, templates list and AI import can share this
+type CheckQuestion = {
+  id: string;
+  label?: string;
+  type?: string;
+  options?: string[];
+  min?: number | null;
+  max?: number | null;
+  response_set?: { options?: unknown[] } | null;
+  expected_pattern?: string;
+  weight?: number;
+  visibility?: VisibilityRule | null;
+  translations?: Record<string, { label?: string }>;
+};
+
+type CheckSection = {
+  id: string;
+  title?: string;
+  is_title?: boolean;
+  visibility?: VisibilityRule | null;
+  questions?: CheckQuestion[];
+  translations?: Record<string, { title?: string }>;
+};
+
+type CheckDefinition = {
+  sections?: CheckSection[];
+  languages?: string[];
+};
+
+const KNOWN_TYPES = [
+  "yes_no_na",
+  "good_fair_poor",
+  "multiple_choice",
+  "text",
+  "signature",
+  "number",
+  "response_set",
+  "scan",
+  "location",
+];
+
+function ruleIssues(
+  rule: VisibilityRule | null | undefined,
+  ownId: string,
+  questionIds: Set<string>
+): string[] {
+  const messages: string[] = [];
+  for (const c of rule?.conditions || []) {
+    if (!c.question_id) continue;
+    if (c.question_id === ownId) {
+      messages.push("Show-when rule depends on this question itself.");
+    } else if (!questionIds.has(c.question_id)) {
+      messages.push("Show-when rule refers to a question that was removed.");
+    }
+  }
+  return messages;
+}
+
+export function validateTemplate(
+  def: CheckDefinition | null | undefined
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const add = (
+    level: IssueLevel,
+    message: string,
+    section?: CheckSection,
+    question?: CheckQuestion
+  ) => {
+    const where = [
+      section ? (section.title || "").trim() || "Untitled section" : "",
+      question ? (question.label || "").trim() || "Untitled question" : "",
+    ]
+      .filter(Boolean)
+      .join(" › ");
+    issues.push({
+      level,
+      message,
+      section_id: section?.id ?? null,
+      question_id: question?.id ?? null,
+      where,
+    });
+  };
+
+  const sections = def?.sections || [];
+  const questionSections = sections.filter((s) => !s.is_title);
+
+  const questionIds = new Set<string>();
+  for (const s of questionSections) {
+    for (const q of s.questions || []) if (q.id) questionIds.add(q.id);
+  }
+
+  if (!questionSections.some((s) => (s.questions || []).length > 0)) {
+    add("error", "The template has no questions.");
+  }
+
+  // Duplicate ids break answers, rules and scoring
+  const seenSections = new Set<string>();
+  const seenQuestions = new Set<string>();
+
+  for (const s of sections) {
+    if (!s.id) {
+      add("error", "A section is missing its id.");
+    } else if (seenSections.has(s.id)) {
+      add("error", `Duplicate section id "${s.id}".`, s);
+    }
+    seenSections.add(s.id);
+
+    if (s.is_title) {
+      if (!(s.title || "").trim()) {
+        add("error", "Title block has no text.", s);
+      }
+      continue;
+    }
+
+    if (!(s.title || "").trim()) {
+      add("warning", "Section has no title.", s);
+    }
+
+    const questions = s.questions || [];
+    if (!questions.length) {
+      add("error", "Section has no questions.", s);
+    }
+
+    for (const message of ruleIssues(s.visibility, "", questionIds)) {
+      add("warning", message, s);
+    }
+
+    for (const q of questions) {
+      if (!q.id) {
+        add("error", "A question is missing its id.", s);
+      } else if (seenQuestions.has(q.id)) {
+        add("error", `Duplicate question id "${q.id}".`, s, q);
+      }
+      seenQuestions.add(q.id);
+
+      if (!(q.label || "").trim()) {
+        add("error", "Question has no label.", s, q);
+      }
+
+      if (q.type && !KNOWN_TYPES.includes(q.type)) {
+        add("error", `Unknown question type "${q.type}".`, s, q);
+      }
+
+      if (q.type === "multiple_choice") {
+        const options = (q.options || [])
+          .map((o) => (o || "").trim())
+          .filter(Boolean);
+        if (!options.length) {
+          add("error", "Multiple choice question has no options.", s, q);
+        } else if (options.length === 1) {
+          add("warning", "Multiple choice has only one option.", s, q);
+        }
+        const lower = options.map((o) => o.toLowerCase());
+        if (new Set(lower).size !== lower.length) {
+          add("warning", "Multiple choice has duplicate options.", s, q);
+        }
+      }
+
+      if (q.type === "response_set" && !q.response_set?.options?.length) {
+        add("error", "No response set chosen.", s, q);
+      }
+
+      if (
+        q.type === "scan" &&
+        q.expected_pattern &&
+        !isValidPattern(q.expected_pattern)
+      ) {
+        add("error", "Expected pattern is not a valid expression.", s, q);
+      }
+
+      if (
+        q.type === "number" &&
+        typeof q.min === "number" &&
+        typeof q.max === "number" &&
+        q.min > q.max
+      ) {
+        add("error", "Minimum is greater than maximum.", s, q);
+      }
+
+      if (typeof q.weight === "number" && q.weight < 0) {
+        add("warning", "Negative weight will be treated as 1.", s, q);
+      }
+
+      for (const message of ruleIssues(q.visibility, q.id, questionIds)) {
+        add("warning", message, s, q);
+      }
+    }
+  }
+
+  // Untranslated text falls back to English, so only warn once per language
+  for (const lang of def?.languages || []) {
+    if (lang === BASE_LANGUAGE) continue;
+    let missing = 0;
+    for (const s of sections) {
+      if ((s.title || "").trim() && !s.translations?.[lang]?.title?.trim()) {
+        missing++;
+      }
+      if (s.is_title) continue;
+      for (const q of s.questions || []) {
+        if (!q.translations?.[lang]?.label?.trim()) missing++;
+      }
+    }
+    if (missing > 0) {
+      add(
+        "warning",
+        `${languageLabel(lang)}: ${missing} title(s) or label(s) not translated – English is shown instead.`
+      );
+    }
+  }
+
+  return issues;
+}
+
+export function hasErrors(issues: ValidationIssue[]) {
+  return issues.some((i) => i.level === "error");
+}
+
+// Issues for one section (question_id null) or one question
+export function issuesFor(
+  issues: ValidationIssue[],
+  sectionId: string,
+  questionId: string | null = null
+) {
+  return issues.filter(
+    (i) => i.section_id === sectionId && i.question_id === questionId
+  );
+}
+
+// Short plain-text list for alerts
+export function summariseIssues(issues: ValidationIssue[], max = 8) {
+  const lines = issues
+    .slice(0, max)
+    .map(
+      (i) =>
+        `• ${i.level === "error" ? "Error" : "Warning"}: ` +
+        (i.where ? `${i.where}: ${i.message}` : i.message)
+    );
+  if (issues.length > max) lines.push(`…and ${issues.length - max} more.`);
+  return lines.join("\n");
+}
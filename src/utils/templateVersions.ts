@@ -0,0 +1,165 @@
+// src/utils/templateVersions.ts
+// Immutable snapshots of published template definitions.
+// Inspections store the version they were started from (template_version)
+// so later edits never change how an old inspection renders.
+import { supabase } from "@/utils/supabaseClient";
+
+export type TemplateVersionRow = {
+  id: string;
+  template_id: string;
+  version: number;
+  name: string;
+  definition: any;
+  created_at: string;
+  created_by_name: string | null;
+};
+
+type VersionSnapshot = {
+  name: string;
+  description: string | null;
+  definition: any;
+};
+
+// jsonb does not keep key order, so compare with sorted keys
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort();
+    return `{${keys
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Stores the definition as the next version of a template and points
+ * templates.current_version at it. Re-publishing an unchanged definition
+ * reuses the latest version instead of creating a duplicate.
+ */
+export async function createTemplateVersion(
+  templateId: string,
+  snapshot: VersionSnapshot
+): Promise<number> {
+  const { data: latest, error: latestErr } = await supabase
+    .from("template_versions")
+    .select("version, definition")
+    .eq("template_id", templateId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestErr) throw latestErr;
+
+  let version: number;
+  if (
+    latest &&
+    stableStringify(latest.definition) === stableStringify(snapshot.definition)
+  ) {
+    version = latest.version as number;
+  } else {
+    version = ((latest?.version as number) || 0) + 1;
+
+    const { data: userData } = await supabase.auth.getUser();
+    const user = userData?.user;
+    let createdByName: string | null = user?.email || null;
+    if (user) {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("name")
+        .eq("user_id", user.id)
+        .single();
+      createdByName = profile?.name || createdByName;
+    }
+
+    const { error: insertErr } = await supabase
+      .from("template_versions")
+      .insert({
+        template_id: templateId,
+        version,
+        name: snapshot.name,
+        description: snapshot.description,
+        definition: snapshot.definition,
+        created_by: user?.id || null,
+        created_by_name: createdByName,
+      });
+    if (insertErr) throw insertErr;
+  }
+
+  const { error: updateErr } = await supabase
+    .from("templates")
+    .update({ current_version: version })
+    .eq("id", templateId);
+  if (updateErr) throw updateErr;
+
+  return version;
+}
+
+export async function loadTemplateVersions(
+  templateId: string
+): Promise<TemplateVersionRow[]> {
+  const { data, error } = await supabase
+    .from("template_versions")
+    .select(
+      "id, template_id, version, name, definition, created_at, created_by_name"
+    )
+    .eq("template_id", templateId)
+    .order("version", { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map((v: any) => ({
+    id: v.id,
+    template_id: v.template_id,
+    version: Number(v.version),
+    name: v.name || "",
+    definition: v.definition,
+    created_at: v.created_at,
+    created_by_name: v.created_by_name || null,
+  }));
+}
+
+/**
+ * Definition + logo an inspection should render against: the pinned
+ * version when there is one, otherwise the live template (rows from
+ * templates that were never published). A missing pinned version is an
+ * error rather than a silent switch to the working copy.
+ */
+export async function loadInspectionTemplate(
+  templateId: string,
+  version: number | null
+): Promise<{ definition: any; logo: string | null }> {
+  const { data: tpl, error: tplErr } = await supabase
+    .from("templates")
+    .select("definition, logo_data_url")
+    .eq("id", templateId)
+    .single();
+
+  if (tplErr) throw tplErr;
+
+  let definition = tpl?.definition || { sections: [] };
+
+  if (version !== null) {
+    const { data: ver, error: verErr } = await supabase
+      .from("template_versions")
+      .select("definition")
+      .eq("template_id", templateId)
+      .eq("version", version)
+      .maybeSingle();
+
+    if (verErr) throw verErr;
+    if (!ver?.definition) {
+      throw new Error(`Version ${version} of this template could not be found.`);
+    }
+    definition = ver.definition;
+  }
+
+  return {
+    definition,
+    logo: (tpl as any)?.logo_data_url || null,
+  };
+}
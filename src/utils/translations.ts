@@ -0,0 +1,182 @@
+// src/utils/translations.ts
+// Template translations. The definition text is the canonical (English)
+// version; sections and questions can carry per-language overrides.
+// Answers always store canonical ids / keys, only the display changes.
+
+export type LanguageCode = "en" | "pl" | "es";
+
+export const BASE_LANGUAGE: LanguageCode = "en";
+
+export const LANGUAGES: { code: LanguageCode; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "pl", label: "Polski" },
+  { code: "es", label: "Español" },
+];
+
+export type SectionTranslation = {
+  title?: string;
+  instance_label?: string;
+};
+
+export type QuestionTranslation = {
+  label?: string;
+  options?: string[]; // same order as the canonical options
+  guidance?: string;
+};
+
+// Minimal shapes shared by the editor, inspections and PDFs
+type TranslatableSection = {
+  title: string;
+  instance_label?: string;
+  translations?: Record<string, SectionTranslation>;
+};
+
+type TranslatableQuestion = {
+  label: string;
+  options?: string[];
+  guidance?: string;
+  translations?: Record<string, QuestionTranslation>;
+};
+
+export function languageLabel(code: string) {
+  return LANGUAGES.find((l) => l.code === code)?.label || code;
+}
+
+/** Languages an inspector can pick for a template. */
+export function templateLanguages(def: { languages?: string[] } | null) {
+  const extra = (def?.languages || []).filter((c) => c !== BASE_LANGUAGE);
+  return LANGUAGES.filter(
+    (l) => l.code === BASE_LANGUAGE || extra.includes(l.code)
+  );
+}
+
+export function sectionTitle(section: TranslatableSection, lang: string) {
+  return section.translations?.[lang]?.title?.trim() || section.title;
+}
+
+export function sectionInstanceLabel(
+  section: TranslatableSection,
+  lang: string
+) {
+  return (
+    section.translations?.[lang]?.instance_label?.trim() ||
+    section.instance_label ||
+    ""
+  );
+}
+
+export function questionLabel(q: TranslatableQuestion, lang: string) {
+  return q.translations?.[lang]?.label?.trim() || q.label;
+}
+
+export function questionGuidance(q: TranslatableQuestion, lang: string) {
+  return q.translations?.[lang]?.guidance?.trim() || q.guidance || "";
+}
+
+/** Display text for a canonical multiple choice option. */
+export function optionLabel(
+  q: TranslatableQuestion,
+  option: string,
+  lang: string
+) {
+  const index = (q.options || []).indexOf(option);
+  if (index === -1) return option;
+  return q.translations?.[lang]?.options?.[index]?.trim() || option;
+}
+
+// Built-in Yes / No / N/A and Good / Fair / Poor choices
+const CHOICE_LABELS: Record<string, Record<LanguageCode, string>> = {
+  yes: { en: "Yes", pl: "Tak", es: "Sí" },
+  no: { en: "No", pl: "Nie", es: "No" },
+  na: { en: "N/A", pl: "N/D", es: "N/A" },
+  good: { en: "Good", pl: "Dobry", es: "Bueno" },
+  fair: { en: "Fair", pl: "Średni", es: "Regular" },
+  poor: { en: "Poor", pl: "Słaby", es: "Malo" },
+};
+
+export function choiceLabel(key: string, lang: string) {
+  const labels = CHOICE_LABELS[key];
+  if (!labels) return key;
+  return labels[lang as LanguageCode] || labels[BASE_LANGUAGE];
+}
+
+// Fixed wording used in PDF reports
+const PDF_LABELS = {
+  site: { en: "Site", pl: "Obiekt", es: "Sitio" },
+  started: { en: "Started", pl: "Rozpoczęto", es: "Iniciada" },
+  submitted: { en: "Submitted", pl: "Zakończono", es: "Enviada" },
+  inspector: { en: "Inspector", pl: "Inspektor", es: "Inspector" },
+  template_version: {
+    en: "Template version",
+    pl: "Wersja szablonu",
+    es: "Versión de plantilla",
+  },
+  answer: { en: "Answer", pl: "Odpowiedź", es: "Respuesta" },
+  notes: { en: "Notes", pl: "Uwagi", es: "Notas" },
+  photos: {
+    en: "Photos attached",
+    pl: "Załączone zdjęcia",
+    es: "Fotos adjuntas",
+  },
+  answered_by: {
+    en: "Answered by",
+    pl: "Odpowiedział(a)",
+    es: "Respondido por",
+  },
+  start_location: {
+    en: "Start location",
+    pl: "Miejsce rozpoczęcia",
+    es: "Ubicación de inicio",
+  },
+  submit_location: {
+    en: "Submit location",
+    pl: "Miejsce zakończenia",
+    es: "Ubicación de envío",
+  },
+} satisfies Record<string, Record<LanguageCode, string>>;
+
+export type PdfLabelKey = keyof typeof PDF_LABELS;
+
+export function pdfLabel(key: PdfLabelKey, lang: string) {
+  return PDF_LABELS[key][lang as LanguageCode] || PDF_LABELS[key].en;
+}
+
+// jsPDF's built-in fonts only cover Latin-1 (plus a few symbols), so
+// letters like Polish "ą" or "ł" are written without their accents and
+// range signs like "≥" are spelled out
+const PDF_REPLACEMENTS: Record<string, string> = {
+  "ł": "l",
+  "Ł": "L",
+  "≥": ">=",
+  "≤": "<=",
+};
+
+export function pdfSafeText(text: string) {
+  return text.replace(/[^\u0000-\u00ff–—‘’“”•…›€]/g, (ch) => {
+    if (PDF_REPLACEMENTS[ch]) return PDF_REPLACEMENTS[ch];
+    return ch.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  });
+}
+
+// Drops blank entries so saved definitions stay small
+export function cleanTranslations<T extends Record<string, any>>(
+  translations: Record<string, T> | undefined,
+  languages: string[]
+): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const lang of languages) {
+    const entry = translations?.[lang];
+    if (!entry) continue;
+    const cleaned: Record<string, any> = {};
+    for (const [key, value] of Object.entries(entry)) {
+      if (Array.isArray(value)) {
+        const list = value.map((v) => (v || "").trim());
+        if (list.some(Boolean)) cleaned[key] = list;
+      } else if (typeof value === "string" && value.trim()) {
+        cleaned[key] = value.trim();
+      }
+    }
+    if (Object.keys(cleaned).length) result[lang] = cleaned as T;
+  }
+  return result;
+}
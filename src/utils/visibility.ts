@@ -0,0 +1,187 @@
+// src/utils/visibility.ts
+// Conditional logic for template sections & questions.
+// A rule hides its section/question unless earlier answers match.
+
+export type VisibilityOperator =
+  | "equals"
+  | "not_equals"
+  | "is_answered"
+  | "is_not_answered";
+
+export type VisibilityCondition = {
+  question_id: string;
+  operator: VisibilityOperator;
+  value?: string | null; // choice key (yes/no/na, good/...) or option / text
+};
+
+export type VisibilityRule = {
+  match: "all" | "any";
+  conditions: VisibilityCondition[];
+};
+
+// Minimal shapes so both the editor and the inspection modal can use this
+type RuleQuestion = {
+  id: string;
+  visibility?: VisibilityRule | null;
+};
+
+type RuleSection = {
+  id: string;
+  is_title?: boolean;
+  repeatable?: boolean;
+  visibility?: VisibilityRule | null;
+  questions: RuleQuestion[];
+};
+
+type RuleAnswer = {
+  section_id: string;
+  question_id: string;
+  instance_id?: string | null; // repeatable section instance
+  value: string | null;
+  choice_key: string | null;
+};
+
+export type HiddenState = {
+  sections: Set<string>; // section ids
+  questions: Set<string>; // questionKey(section_id, question_id, instance_id)
+};
+
+export function questionKey(
+  sectionId: string,
+  questionId: string,
+  instanceId?: string | null
+) {
+  return instanceId
+    ? `${sectionId}#${instanceId}:${questionId}`
+    : `${sectionId}:${questionId}`;
+}
+
+function normalise(v: string | null | undefined) {
+  return (v ?? "").trim().toLowerCase();
+}
+
+function isAnswered(a: RuleAnswer | undefined) {
+  if (!a) return false;
+  return !!a.choice_key || normalise(a.value) !== "";
+}
+
+function conditionHolds(
+  c: VisibilityCondition,
+  answer: RuleAnswer | undefined
+): boolean {
+  switch (c.operator) {
+    case "is_answered":
+      return isAnswered(answer);
+    case "is_not_answered":
+      return !isAnswered(answer);
+    case "equals":
+    case "not_equals": {
+      const target = normalise(c.value);
+      const actual = answer ? normalise(answer.choice_key ?? answer.value) : "";
+      const equal = isAnswered(answer) && actual === target;
+      return c.operator === "equals" ? equal : !equal;
+    }
+    default:
+      return true;
+  }
+}
+
+function sameSet(a: Set<string>, b: Set<string>) {
+  if (a.size !== b.size) return false;
+  for (const v of a) if (!b.has(v)) return false;
+  return true;
+}
+
+// Empty / missing rules always show the item
+export function isRuleSatisfied(
+  rule: VisibilityRule | null | undefined,
+  answerFor: (questionId: string) => RuleAnswer | undefined
+): boolean {
+  const conditions = (rule?.conditions || []).filter((c) => !!c.question_id);
+  if (!conditions.length) return true;
+  const results = conditions.map((c) =>
+    conditionHolds(c, answerFor(c.question_id))
+  );
+  return rule!.match === "any" ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Works out which sections/questions are hidden for the given answers.
+ * Answers to hidden questions count as unanswered, so rules are
+ * re-evaluated until nothing changes (order independent). Inside a
+ * repeatable section, rules read answers from the same instance first.
+ */
+export function computeHidden(
+  sections: RuleSection[],
+  answers: RuleAnswer[]
+): HiddenState {
+  const byQuestion = new Map<string, RuleAnswer[]>();
+  const instancesBySection = new Map<string, string[]>();
+  for (const a of answers) {
+    if (!byQuestion.has(a.question_id)) byQuestion.set(a.question_id, []);
+    byQuestion.get(a.question_id)!.push(a);
+    if (a.instance_id) {
+      const list = instancesBySection.get(a.section_id) || [];
+      if (!list.includes(a.instance_id)) list.push(a.instance_id);
+      instancesBySection.set(a.section_id, list);
+    }
+  }
+
+  let hidden: HiddenState = { sections: new Set(), questions: new Set() };
+
+  // Chained rules settle quickly; the cap guards against circular rules
+  const maxPasses = answers.length + sections.length + 1;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const isHiddenAnswer = (a: RuleAnswer) =>
+      hidden.questions.has(
+        questionKey(a.section_id, a.question_id, a.instance_id)
+      );
+
+    const answerFinder =
+      (sectionId: string, instanceId: string | null) =>
+      (questionId: string) => {
+        const visible = (byQuestion.get(questionId) || []).filter(
+          (a) => !isHiddenAnswer(a)
+        );
+        if (instanceId) {
+          const same = visible.find(
+            (a) => a.section_id === sectionId && a.instance_id === instanceId
+          );
+          if (same) return same;
+        }
+        return visible.find(isAnswered) || visible[0];
+      };
+
+    const next: HiddenState = { sections: new Set(), questions: new Set() };
+    for (const section of sections) {
+      if (section.is_title) continue;
+      const sectionHidden = !isRuleSatisfied(
+        section.visibility,
+        answerFinder(section.id, null)
+      );
+      if (sectionHidden) next.sections.add(section.id);
+
+      const instanceIds: (string | null)[] = section.repeatable
+        ? instancesBySection.get(section.id) || []
+        : [null];
+      for (const instanceId of instanceIds) {
+        for (const q of section.questions || []) {
+          if (
+            sectionHidden ||
+            !isRuleSatisfied(q.visibility, answerFinder(section.id, instanceId))
+          ) {
+            next.questions.add(questionKey(section.id, q.id, instanceId));
+          }
+        }
+      }
+    }
+
+    const stable =
+      sameSet(next.questions, hidden.questions) &&
+      sameSet(next.sections, hidden.sections);
+    hidden = next;
+    if (stable) break;
+  }
+
+  return hidden;
+}
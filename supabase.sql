@@ -57,3 +57,224 @@ begin
   end if;
 end;
 $$;
+
+-- Template versioning: every save of a published template stores an
+-- immutable snapshot; inspections remember the version they started from.
+create table if not exists public.template_versions (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.templates(id) on delete cascade,
+  version integer not null,
+  name text not null,
+  description text,
+  definition jsonb not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_name text,
+  created_at timestamptz default now(),
+  unique (template_id, version)
+);
+
+alter table if exists public.templates
+  add column if not exists current_version integer;
+
+alter table if exists public.inspections
+  add column if not exists template_version integer;
+
+-- Question library: standard questions managers can insert into any
+-- template. Template copies keep a library_id so updates can be pushed.
+create table if not exists public.question_library (
+  id uuid primary key default gen_random_uuid(),
+  label text not null,
+  type text not null,
+  question jsonb not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_name text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Custom response sets (answer scales with colours and scores).
+-- options: [{ key, label, color, score }]
+create table if not exists public.response_sets (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  options jsonb not null default '[]'::jsonb,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Recurring inspection schedules. Clients generate the due inspections
+-- (one per site per occurrence) and record last_generated_on.
+create table if not exists public.inspection_schedules (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.templates(id) on delete cascade,
+  template_name text,
+  site_ids uuid[] not null default '{}',
+  assignees jsonb not null default '[]'::jsonb, -- [{ user_id, name }]
+  frequency text not null default 'weekly', -- daily | weekly | monthly | custom
+  interval_days integer, -- custom only
+  start_date date not null,
+  end_date date,
+  due_time text not null default '09:00',
+  is_active boolean not null default true,
+  last_generated_on date,
+  created_at timestamptz default now()
+);
+
+alter table if exists public.inspections
+  add column if not exists schedule_id uuid references public.inspection_schedules(id) on delete set null,
+  add column if not exists due_at timestamptz;
+
+-- One generated inspection per schedule, site and due time. Schedules
+-- without a site store site_id null, so nulls must count as equal
+-- (Postgres 15+). Ad-hoc inspections (no schedule) are not limited.
+drop index if exists public.inspections_schedule_site_due;
+drop index if exists public.inspections_schedule_site_due_once;
+create unique index if not exists inspections_schedule_site_due_unique
+  on public.inspections (schedule_id, site_id, due_at) nulls not distinct
+  where schedule_id is not null;
+
+-- Templates can be assigned to several sites (no rows = all sites)
+create table if not exists public.template_sites (
+  template_id uuid not null references public.templates(id) on delete cascade,
+  site_id uuid not null references public.sites(id) on delete cascade,
+  primary key (template_id, site_id)
+);
+
+insert into public.template_sites (template_id, site_id)
+select id, site_id from public.templates where site_id is not null
+on conflict do nothing;
+
+-- Template lifecycle: draft -> in_review -> published -> retired.
+-- is_published / current_version keep pointing at the approved version
+-- while a new draft is being reviewed.
+alter table if exists public.templates
+  add column if not exists status text not null default 'draft';
+
+update public.templates set status = 'published'
+where is_published = true and status = 'draft';
+
+-- Templates published before versioning: their current definition
+-- becomes v1, and inspections started from them are pinned to it, so
+-- later draft edits never reach those inspections
+insert into public.template_versions
+  (template_id, version, name, description, definition, created_by_name)
+select t.id, 1, t.name, t.description,
+  coalesce(t.definition, '{"sections": []}'::jsonb), 'Migration'
+from public.templates t
+where t.is_published = true
+  and not exists (
+    select 1 from public.template_versions v where v.template_id = t.id
+  )
+on conflict (template_id, version) do nothing;
+
+update public.templates t
+set current_version = (
+  select max(v.version) from public.template_versions v
+  where v.template_id = t.id
+)
+where t.current_version is null
+  and exists (
+    select 1 from public.template_versions v where v.template_id = t.id
+  );
+
+update public.inspections i
+set template_version = t.current_version
+from public.templates t
+where i.template_id = t.id
+  and i.template_version is null
+  and t.current_version is not null;
+
+create table if not exists public.template_reviews (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.templates(id) on delete cascade,
+  action text not null, -- submitted | withdrawn | approved | rejected | retired | restored
+  comment text,
+  version integer, -- version created by an approval
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_name text,
+  created_at timestamptz default now()
+);
+
+create index if not exists template_reviews_template_idx
+  on public.template_reviews (template_id, created_at desc);
+
+-- Device coordinates stamped on first save and on completion
+-- ({ lat, lng, accuracy, captured_at })
+alter table if exists public.inspections
+  add column if not exists start_location jsonb,
+  add column if not exists submit_location jsonb;
+
+-- Template categories, tags and search. search_text (name, description,
+-- section titles and question labels) is kept up to date by a trigger so
+-- the templates list can search without loading every definition.
+alter table if exists public.templates
+  add column if not exists category text,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists updated_at timestamptz default now(),
+  add column if not exists search_text text;
+
+create or replace function public.templates_before_write()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_text := lower(concat_ws(' ',
+    new.name,
+    new.description,
+    new.category,
+    array_to_string(new.tags, ' '),
+    (
+      select string_agg(concat_ws(' ', s->>'title', (
+        select string_agg(q->>'label', ' ')
+        from jsonb_array_elements(coalesce(s->'questions', '[]'::jsonb)) q
+      )), ' ')
+      from jsonb_array_elements(coalesce(new.definition->'sections', '[]'::jsonb)) s
+    )
+  ));
+
+  -- Only content edits count as "last edited", not status changes
+  if tg_op = 'INSERT'
+    or new.name is distinct from old.name
+    or new.description is distinct from old.description
+    or new.definition is distinct from old.definition
+    or new.category is distinct from old.category
+    or new.tags is distinct from old.tags then
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists templates_before_write on public.templates;
+create trigger templates_before_write
+before insert or update on public.templates
+for each row execute procedure public.templates_before_write();
+
+-- Fills search_text for existing rows (updated_at is left alone)
+update public.templates set search_text = null where search_text is null;
+
+create or replace view public.template_usage
+with (security_invoker = true) as
+select
+  template_id,
+  count(*)::integer as inspection_count,
+  max(started_at) as last_used_at
+from public.inspections
+group by template_id;
+
+-- Overall result of an inspection: a failed critical question fails it
+-- whatever the percentage, so lists can't go by score alone.
+-- passed is null when the template has no pass mark and nothing critical failed.
+alter table if exists public.inspections
+  add column if not exists passed boolean,
+  add column if not exists critical_failed boolean not null default false;
+
+update public.inspections
+set critical_failed = true, passed = false
+where critical_failed = false
+  and jsonb_typeof(items) = 'array'
+  and exists (
+    select 1 from jsonb_array_elements(items) it
+    where coalesce((it->>'critical_failure')::boolean, false)
+      and not coalesce((it->>'hidden')::boolean, false)
+  );